@@ -3,27 +3,48 @@
 import { useEffect } from "react";
 
 import { CanvasHost } from "@/components/CanvasHost";
+import { CompareOverlay } from "@/components/CompareOverlay";
+import { ComparePanel } from "@/components/ComparePanel";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { HistoryPanel } from "@/components/HistoryPanel";
+import { LayerPanel } from "@/components/LayerPanel";
 import { ParamPanel } from "@/components/ParamPanel";
+import { SeedExplorer } from "@/components/SeedExplorer";
 import { StatusBar } from "@/components/StatusBar";
+import { Timeline } from "@/components/Timeline";
 import { TopBar } from "@/components/TopBar";
+import { parseStoredState } from "@/lib/paramValidation";
 import { decodeEditorState, STATE_PARAM } from "@/lib/shareUrls";
 import { useEditorStore } from "@/store/useEditor";
+import { useNotificationStore } from "@/store/useNotifications";
+import { useHistoryShortcuts } from "@/store/useHistory";
 
 
 export default function EditorPage() {
   const loadFromStoredState = useEditorStore((state) => state.loadFromStoredState);
+  useHistoryShortcuts();
 
   useEffect(() => {
     if (typeof window === "undefined") return;
     const url = new URL(window.location.href);
     const encoded = url.searchParams.get(STATE_PARAM);
-    const snapshot = decodeEditorState(encoded);
-    if (snapshot && typeof snapshot === "object") {
-      loadFromStoredState(snapshot as any);
+    if (!encoded) return;
+    let cancelled = false;
+    void decodeEditorState(encoded).then((decoded) => {
+      if (cancelled) return;
+      const snapshot = parseStoredState(decoded);
       url.searchParams.delete(STATE_PARAM);
       window.history.replaceState({}, "", url.toString());
-    }
+      if (!snapshot) {
+        useNotificationStore.getState().addNotification("Share link could not be read", "error");
+        return;
+      }
+      // Values are validated per effect param while loading; corrections are reported there.
+      loadFromStoredState(snapshot);
+    });
+    return () => {
+      cancelled = true;
+    };
   }, [loadFromStoredState]);
 
   return (
@@ -41,21 +62,46 @@ export default function EditorPage() {
                 {/* Canvas viewport */}
                 <div className="flex items-center justify-center border border-ink bg-paper p-4">
                   <div className="flex max-h-full max-w-full items-center justify-center border border-dashed border-ink bg-paper p-4">
-                    <ErrorBoundary>
-                      <CanvasHost />
-                    </ErrorBoundary>
+                    <div className="relative">
+                      <ErrorBoundary>
+                        <CanvasHost />
+                      </ErrorBoundary>
+                      <ErrorBoundary>
+                        <CompareOverlay />
+                      </ErrorBoundary>
+                    </div>
                   </div>
                 </div>
 
+                <ErrorBoundary>
+                  <Timeline />
+                </ErrorBoundary>
+
+                <ErrorBoundary>
+                  <ComparePanel />
+                </ErrorBoundary>
+
+                <ErrorBoundary>
+                  <SeedExplorer />
+                </ErrorBoundary>
+
+                <ErrorBoundary>
+                  <HistoryPanel />
+                </ErrorBoundary>
               </div>
             </div>
 
             {/* Right side - FIXED parameter panel (always visible) */}
             <div className="w-[320px] flex-shrink-0">
-              <div className="sticky top-0 h-screen">
+              <div className="sticky top-0 flex h-full flex-col gap-2">
                 <ErrorBoundary>
-                  <ParamPanel />
+                  <LayerPanel />
                 </ErrorBoundary>
+                <div className="min-h-0 flex-1">
+                  <ErrorBoundary>
+                    <ParamPanel />
+                  </ErrorBoundary>
+                </div>
               </div>
             </div>
           </div>
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+
+import { CanvasHost } from "@/components/CanvasHost";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { parseStoredState } from "@/lib/paramValidation";
+import { decodeEditorState, readPlayerOptions, STATE_PARAM, type PlayerOptions } from "@/lib/shareUrls";
+import { useEditorStore } from "@/store/useEditor";
+
+type PlayerStatus = "loading" | "ready" | "invalid";
+
+/**
+ * Read-only player for share payloads, meant for iframes: only the canvas and,
+ * unless `controls=0`, a play/pause and restart overlay.
+ * Query options: `autoplay`, `loops`, `fit`, `transparent`, `controls`.
+ */
+export default function PlayPage() {
+  const [status, setStatus] = useState<PlayerStatus>("loading");
+  const [options, setOptions] = useState<PlayerOptions | null>(null);
+  const playing = useEditorStore((state) => state.playing);
+  const togglePlaying = useEditorStore((state) => state.togglePlaying);
+  const setPlaying = useEditorStore((state) => state.setPlaying);
+  const seekTo = useEditorStore((state) => state.seekTo);
+  const loadFromStoredState = useEditorStore((state) => state.loadFromStoredState);
+
+  useEffect(() => {
+    const params = new URL(window.location.href).searchParams;
+    const playerOptions = readPlayerOptions(params);
+    let cancelled = false;
+    void decodeEditorState(params.get(STATE_PARAM)).then((decoded) => {
+      if (cancelled) return;
+      const snapshot = parseStoredState(decoded);
+      if (!snapshot) {
+        setStatus("invalid");
+        return;
+      }
+      loadFromStoredState(snapshot);
+      setPlaying(playerOptions.autoplay);
+      setOptions(playerOptions);
+      setStatus("ready");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadFromStoredState, setPlaying]);
+
+  useEffect(() => {
+    if (!options?.transparent) return;
+    // The root layout paints the page in paper; an embed needs to show its host page.
+    const previous = document.body.style.background;
+    document.body.style.background = "transparent";
+    return () => {
+      document.body.style.background = previous;
+    };
+  }, [options?.transparent]);
+
+  const handleRestart = () => {
+    seekTo(0);
+    setPlaying(true);
+  };
+
+  return (
+    <main
+      className={clsx(
+        "group relative flex h-screen w-screen items-center justify-center overflow-hidden text-ink",
+        options?.transparent ? "bg-transparent" : "bg-paper",
+      )}
+    >
+      {status === "loading" && <p className="text-xs uppercase tracking-[0.2em] opacity-60">Loading…</p>}
+      {status === "invalid" && (
+        <p className="text-xs uppercase tracking-[0.2em] opacity-60">Nothing to play: missing or unreadable link.</p>
+      )}
+      {status === "ready" && options && (
+        <>
+          <ErrorBoundary>
+            <CanvasHost fit={options.fit} transparent={options.transparent} loopCount={options.loops} />
+          </ErrorBoundary>
+          {options.controls && (
+            <div className="absolute bottom-2 left-2 flex gap-1 text-[10px] uppercase tracking-[0.12em] opacity-0 transition-opacity focus-within:opacity-100 group-hover:opacity-100">
+              <button
+                type="button"
+                onClick={togglePlaying}
+                className="border border-ink bg-paper px-2 py-1 hover:bg-ink hover:text-paper"
+              >
+                {playing ? "Pause" : "Play"}
+              </button>
+              <button
+                type="button"
+                onClick={handleRestart}
+                className="border border-ink bg-paper px-2 py-1 hover:bg-ink hover:text-paper"
+              >
+                Restart
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
@@ -1,13 +1,16 @@
 "use client";
 
 import { useEffect, useRef } from "react";
+import clsx from "clsx";
 import type p5 from "p5";
 
-import { getEffect } from "@/effects";
-import type { ParamValues } from "@/effects/types";
-import { AppError, createCanvasError, createAnimationError, safeOperation, errorManager } from "@/lib/errorHandling";
-import { createRng, hashSeed } from "@/lib/rng";
-import { useEditorStore, type Background } from "@/store/useEditor";
+import type { EffectLayer, ParamValues } from "@/effects/types";
+import { createCompositor, type Compositor } from "@/lib/compositor";
+import { createCanvasError, createAnimationError, errorManager } from "@/lib/errorHandling";
+import { getFrameCount } from "@/lib/loop";
+import { createOffscreenCompositor, supportsOffscreenRendering } from "@/lib/offscreenRenderer";
+import { adjustPreviewScale, calculateOptimalSettings, type QualitySettings } from "@/lib/qualityManager";
+import { useEditorStore, createLayer, getLoopRange, type Background } from "@/store/useEditor";
 import { useNotificationStore } from "@/store/useNotifications";
 
 type RuntimeData = {
@@ -17,18 +20,25 @@ type RuntimeData = {
   durationSec: number;
   playing: boolean;
   effectId: string;
-  params: ParamValues;
+  layers: EffectLayer[];
   seed: string;
   background: Background;
   invert: boolean;
+  loopMode: boolean;
+  loopIn: number | null;
+  loopOut: number | null;
+  seekTarget: number | null;
   needsReset: boolean;
+  /** Only the preview scale changed: re-initialize at the new size but stay on the current frame. */
+  scaleChanged: boolean;
+  layersChanged: boolean;
+  transparent: boolean;
+  loopCount: number | null;
+  quality: QualitySettings;
 };
 
-type EffectRuntime = {
-  data: Record<string, unknown>;
-  seedHash: number;
-  baseSeed: string;
-};
+/** Rendered frames averaged before auto-scale reconsiders the preview resolution. */
+const QUALITY_SAMPLE_FRAMES = 24;
 
 const DEFAULT_RUNTIME: RuntimeData = {
   width: 640,
@@ -37,28 +47,34 @@ const DEFAULT_RUNTIME: RuntimeData = {
   durationSec: 6,
   playing: true,
   effectId: "square-drift",
-  params: {},
+  layers: [],
   seed: "",
   background: "white",
   invert: false,
+  loopMode: false,
+  loopIn: null,
+  loopOut: null,
+  seekTarget: null,
   needsReset: true,
+  scaleChanged: false,
+  layersChanged: false,
+  transparent: false,
+  loopCount: null,
+  quality: calculateOptimalSettings(640, 640, 12),
 };
 
-const computeColors = (background: Background, invert: boolean) => {
-  const basePaper = background === "white" ? 255 : 0;
-  const baseInk = basePaper === 255 ? 0 : 255;
-  if (invert) {
-    return { paper: baseInk, ink: basePaper };
-  }
-  return { paper: basePaper, ink: baseInk };
+type CanvasHostProps = {
+  /** Scale the canvas to fill its container, keeping the aspect ratio. */
+  fit?: boolean;
+  /** Key the paper color out so the animation composites over the page. */
+  transparent?: boolean;
+  /** Pause on the last frame after this many passes; loops forever when unset. */
+  loopCount?: number | null;
 };
 
-const cloneParams = (params: ParamValues) => ({ ...params });
-
-export function CanvasHost() {
+export function CanvasHost({ fit = false, transparent = false, loopCount = null }: CanvasHostProps = {}) {
   const containerRef = useRef<HTMLDivElement | null>(null);
-  const runtimeRef = useRef<RuntimeData>({ ...DEFAULT_RUNTIME });
-  const effectCtxRef = useRef<EffectRuntime>({ data: {}, seedHash: hashSeed("init"), baseSeed: "init" });
+  const runtimeRef = useRef<RuntimeData>({ ...DEFAULT_RUNTIME, transparent, loopCount });
 
   const width = useEditorStore((state) => state.width);
   const height = useEditorStore((state) => state.height);
@@ -66,11 +82,17 @@ export function CanvasHost() {
   const durationSec = useEditorStore((state) => state.durationSec);
   const playing = useEditorStore((state) => state.playing);
   const effectId = useEditorStore((state) => state.effectId);
-  const params = useEditorStore((state) => state.params);
+  const layers = useEditorStore((state) => state.layers);
   const seed = useEditorStore((state) => state.seed);
   const background = useEditorStore((state) => state.background);
   const invert = useEditorStore((state) => state.invert);
+  const loopMode = useEditorStore((state) => state.loopMode);
+  const loopIn = useEditorStore((state) => state.loopIn);
+  const loopOut = useEditorStore((state) => state.loopOut);
+  const seekRequest = useEditorStore((state) => state.seekRequest);
   const setCurrentFrame = useEditorStore((state) => state.setCurrentFrame);
+  const setPlaying = useEditorStore((state) => state.setPlaying);
+  const setPreviewQuality = useEditorStore((state) => state.setPreviewQuality);
   const addNotification = useNotificationStore((state) => state.addNotification);
 
   useEffect(() => {
@@ -85,6 +107,8 @@ export function CanvasHost() {
 
   useEffect(() => {
     runtimeRef.current.durationSec = durationSec;
+    // Effects see the loop phase, so a new length changes every frame.
+    runtimeRef.current.needsReset = true;
   }, [durationSec]);
 
   useEffect(() => {
@@ -93,14 +117,12 @@ export function CanvasHost() {
 
   useEffect(() => {
     runtimeRef.current.effectId = effectId;
-    runtimeRef.current.params = cloneParams(params);
-    runtimeRef.current.needsReset = true;
   }, [effectId]);
 
   useEffect(() => {
-    runtimeRef.current.params = cloneParams(params);
-    runtimeRef.current.needsReset = true;
-  }, [params]);
+    runtimeRef.current.layers = layers;
+    runtimeRef.current.layersChanged = true;
+  }, [layers]);
 
   useEffect(() => {
     runtimeRef.current.seed = seed;
@@ -117,9 +139,43 @@ export function CanvasHost() {
     runtimeRef.current.needsReset = true;
   }, [invert]);
 
+  useEffect(() => {
+    runtimeRef.current.loopMode = loopMode;
+    runtimeRef.current.needsReset = true;
+  }, [loopMode]);
+
+  useEffect(() => {
+    runtimeRef.current.loopIn = loopIn;
+    runtimeRef.current.loopOut = loopOut;
+  }, [loopIn, loopOut]);
+
+  useEffect(() => {
+    runtimeRef.current.transparent = transparent;
+    runtimeRef.current.loopCount = loopCount;
+  }, [transparent, loopCount]);
+
+  // Every layer simulates each frame, hidden or not, so all of them count towards the cost.
+  const layerCount = Math.max(1, layers.length);
+  useEffect(() => {
+    const runtime = runtimeRef.current;
+    const quality = calculateOptimalSettings(width, height, fps, layerCount);
+    if (quality.previewScale !== runtime.quality.previewScale) {
+      runtime.scaleChanged = true;
+    }
+    runtime.quality = quality;
+    setPreviewQuality(quality);
+  }, [width, height, fps, layerCount, setPreviewQuality]);
+
+  useEffect(() => {
+    if (seekRequest) {
+      runtimeRef.current.seekTarget = seekRequest.frame;
+    }
+  }, [seekRequest]);
+
   useEffect(() => {
     let mounted = true;
     let instance: p5 | null = null;
+    let compositor: Compositor | null = null;
     let lastFrameReported = -1;
 
     const setupP5 = async () => {
@@ -129,69 +185,159 @@ export function CanvasHost() {
 
           const sketch = (p: p5) => {
         let frameIndex = 0;
+        let renderedFrame = -1;
+        let loopsPlayed = 0;
+        let finished = false;
         let accumulator = 0;
         let lastTime = performance.now();
-        let currentEffect = getEffect(runtimeRef.current.effectId);
-        let colors = computeColors(runtimeRef.current.background, runtimeRef.current.invert);
+        let sampledMs = 0;
+        let sampledFrames = 0;
+        // Effects run in a worker; frame times arrive with the frames instead of being measured here.
+        let offscreen = false;
 
-        const resetCtx = () => {
+        const getPlaybackRange = () => {
+          const runtime = runtimeRef.current;
+          const totalFrames = getFrameCount(runtime.fps, runtime.durationSec);
+          return { totalFrames, ...getLoopRange(runtime.loopIn, runtime.loopOut, totalFrames) };
+        };
+
+        /** Re-simulates up to `frame` so the preview matches the exported frame. */
+        const seekTo = (frame: number) => {
+          frameIndex = frame;
+          renderedFrame = -1;
+          accumulator = 0;
+          loopsPlayed = 0;
+          finished = false;
+          compositor?.seek(frame, Math.max(1, runtimeRef.current.fps));
+        };
+
+        /** Feeds auto-scale; a new scale takes effect through a frame-keeping reset on the next draw. */
+        const trackFrameTime = (elapsedMs: number) => {
+          const runtime = runtimeRef.current;
+          sampledMs += elapsedMs;
+          sampledFrames += 1;
+          if (sampledFrames < QUALITY_SAMPLE_FRAMES) return;
+          const next = adjustPreviewScale(runtime.quality, sampledMs / sampledFrames);
+          sampledMs = 0;
+          sampledFrames = 0;
+          if (next === runtime.quality) return;
+          runtime.quality = next;
+          runtime.scaleChanged = true;
+          setPreviewQuality(next);
+        };
+
+        /** Moves playback on by one frame, wrapping at the loop end or stopping after the last pass. */
+        const advanceFrame = (start: number, end: number) => {
+          const runtime = runtimeRef.current;
+          if (frameIndex >= end && runtime.loopCount !== null && loopsPlayed + 1 >= runtime.loopCount) {
+            // Hold the last frame once the requested number of passes has played.
+            finished = true;
+            runtime.playing = false;
+            setPlaying(false);
+          } else if (frameIndex >= end || frameIndex < start) {
+            const passes = loopsPlayed + 1;
+            seekTo(start);
+            loopsPlayed = passes;
+          } else {
+            frameIndex += 1;
+          }
+        };
+
+        /** Reports an effect that failed to initialize and restarts with a known-good one. */
+        const recoverFromInitError = (error: Error) => {
+          const runtime = runtimeRef.current;
+          const appError = createAnimationError("effect-init", error, { effectId: runtime.effectId });
+          errorManager.handleError(appError);
+          addNotification("Animation initialization failed. Trying to recover...", "error");
+
+          // Try to recover with default parameters
           try {
-            const runtime = runtimeRef.current;
-            currentEffect = getEffect(runtime.effectId);
-            const seedHash = hashSeed(runtime.seed);
-            const baseData: Record<string, unknown> = {};
-            effectCtxRef.current = {
-              data: baseData,
-              seedHash,
-              baseSeed: runtime.seed,
-            };
-            colors = computeColors(runtime.background, runtime.invert);
-            frameIndex = 0;
-            accumulator = 0;
-            lastTime = performance.now();
-            lastFrameReported = -1;
-            setCurrentFrame(0);
+            compositor!.reset({
+              width: runtime.width,
+              height: runtime.height,
+              seed: "fallback",
+              background: "white",
+              invert: false,
+              durationSec: runtime.durationSec,
+              loopMode: false,
+              layers: [createLayer("square-drift")], // fallback to known working effect
+              renderScale: runtime.quality.previewScale,
+            });
+            addNotification("Recovered with fallback effect", "info");
+          } catch (recoveryError) {
+            console.error("Failed to recover from effect initialization error:", recoveryError);
+          }
+        };
 
-            // Reset frame tracking
-            frameIndex = 0;
-            accumulator = 0;
-            runtime.needsReset = false;
-            if (p.width !== runtime.width || p.height !== runtime.height) {
-              p.resizeCanvas(runtime.width, runtime.height);
-            }
-            p.noSmooth();
-            p.pixelDensity(1);
-            p.background(colors.paper);
-            const initContext = {
-              rng: createRng(`${effectCtxRef.current.baseSeed}-init`),
-              data: baseData,
-              seedHash,
-              colors,
-            };
-            currentEffect.init(p, initContext, runtime.params);
-            effectCtxRef.current.data = initContext.data ?? baseData;
+        const createPreviewCompositor = (): Compositor => {
+          if (!supportsOffscreenRendering()) return createCompositor(p);
+          offscreen = true;
+          return createOffscreenCompositor(p, {
+            onFrameTime: trackFrameTime,
+            // Effect errors arrive after the draw that caused them, so they are reported here.
+            onRenderError: (error, failedReset) => {
+              if (failedReset) {
+                recoverFromInitError(error);
+                seekTo(frameIndex);
+                return;
+              }
+              const runtime = runtimeRef.current;
+              const appError = createAnimationError("animation-render", error, {
+                effectId: runtime.effectId,
+                frameIndex,
+                targetFps: Math.max(1, runtime.fps),
+              });
+              errorManager.handleError(appError);
+            },
+            onFallback: (error) => {
+              console.warn("Rendering the preview on the main thread:", error);
+              offscreen = false;
+              runtimeRef.current.needsReset = true;
+            },
+          });
+        };
+
+        const resetCtx = (keepFrame = false) => {
+          const runtime = runtimeRef.current;
+          compositor ??= createPreviewCompositor();
+          runtime.layersChanged = false;
+
+          try {
+            compositor.reset({
+              width: runtime.width,
+              height: runtime.height,
+              seed: runtime.seed,
+              background: runtime.background,
+              invert: runtime.invert,
+              durationSec: runtime.durationSec,
+              loopMode: runtime.loopMode,
+              layers: runtime.layers,
+              renderScale: runtime.quality.previewScale,
+            });
           } catch (error) {
-            const appError = createAnimationError("effect-init", error as Error, { effectId: runtimeRef.current.effectId });
-            errorManager.handleError(appError);
-            addNotification("Animation initialization failed. Trying to recover...", "error");
+            recoverFromInitError(error as Error);
+          }
 
-            // Try to recover with default parameters
-            try {
-              const runtime = runtimeRef.current;
-              const defaultEffect = getEffect("square-drift"); // fallback to known working effect
-              currentEffect = defaultEffect;
-              const initContext = {
-                rng: createRng(`fallback-init`),
-                data: {},
-                seedHash: hashSeed("fallback"),
-                colors: { paper: 255, ink: 0 },
-              };
-              defaultEffect.init(p, initContext, {});
-              addNotification("Recovered with fallback effect", "info");
-            } catch (recoveryError) {
-              console.error("Failed to recover from effect initialization error:", recoveryError);
-            }
+          // Playback restarts at the loop start; a paused preview stays on its frame
+          // so edits can be checked (and keyed) where they were made. A new preview
+          // scale changes nothing visible, so it never restarts playback either.
+          const { totalFrames, start } = getPlaybackRange();
+          const target = runtime.playing && !keepFrame ? start : Math.min(frameIndex, totalFrames - 1);
+          if (target > 0) {
+            const passes = loopsPlayed;
+            seekTo(target);
+            if (keepFrame) loopsPlayed = passes;
+          } else {
+            frameIndex = 0;
+            renderedFrame = -1;
+            accumulator = 0;
           }
+          lastTime = performance.now();
+          lastFrameReported = -1;
+          sampledMs = 0;
+          sampledFrames = 0;
+          runtime.needsReset = false;
+          runtime.scaleChanged = false;
         };
 
         p.setup = () => {
@@ -202,12 +348,21 @@ export function CanvasHost() {
 
         p.draw = () => {
           const runtime = runtimeRef.current;
-          if (!runtime) return;
-
+          if (!runtime || !compositor) return;
+          // Wait for the worker's last frame; queuing more would only let the preview fall behind.
+          if (compositor.isBusy()) return;
 
           try {
-            if (runtime.needsReset) {
+            let layersUpdated = false;
+            if (runtime.needsReset || (runtime.layersChanged && !compositor.canUpdateInPlace(runtime.layers))) {
               resetCtx();
+            } else if (runtime.scaleChanged) {
+              resetCtx(true);
+            } else if (runtime.layersChanged) {
+              // Compositing-only changes (opacity, blend mode, visibility) keep the simulation running.
+              compositor.updateLayers(runtime.layers);
+              runtime.layersChanged = false;
+              layersUpdated = true;
             }
 
             const now = performance.now();
@@ -215,35 +370,51 @@ export function CanvasHost() {
             lastTime = now;
 
             const targetFps = Math.max(1, runtime.fps);
-            const totalFrames = Math.max(1, Math.round(runtime.durationSec * targetFps));
             const frameDuration = 1 / targetFps;
-
-            // Simple animation playback
-            if (runtime.playing) {
+            // A capped preview composites less often but keeps real time by stepping the frames in between.
+            const renderInterval = 1 / Math.min(targetFps, Math.max(1, runtime.quality.previewFPS));
+            const { totalFrames, start, end } = getPlaybackRange();
+            const startedAt = performance.now();
+
+            if (runtime.seekTarget !== null) {
+              seekTo(Math.max(0, Math.min(totalFrames - 1, runtime.seekTarget)));
+              runtime.seekTarget = null;
+            } else if (frameIndex >= totalFrames) {
+              seekTo(start);
+            } else if (runtime.playing && finished) {
+              // Playing again after the last pass starts over.
+              seekTo(start);
+            } else if (runtime.playing) {
               accumulator += deltaSec;
-              if (accumulator >= frameDuration) {
-                const steps = Math.max(1, Math.floor(accumulator / frameDuration));
-                accumulator -= steps * frameDuration;
-                frameIndex = (frameIndex + steps) % totalFrames;
+              if (accumulator >= renderInterval) {
+                // Stateful effects never skip a simulation step, so at most one
+                // composite's worth of frames advances per draw; under load playback
+                // slows down instead.
+                const maxSteps = Math.ceil(renderInterval / frameDuration - 1e-6);
+                const steps = Math.min(maxSteps, Math.floor(accumulator / frameDuration + 1e-6));
+                accumulator = Math.min(accumulator - steps * frameDuration, renderInterval);
+                for (let step = 0; step < steps && !finished; step += 1) {
+                  if (frameIndex !== renderedFrame) {
+                    // A frame passed over between composites is simulated without being drawn.
+                    compositor.stepLayers(frameIndex, targetFps);
+                    renderedFrame = frameIndex;
+                  }
+                  advanceFrame(start, end);
+                }
               }
             }
-            const normalizedTime = frameIndex / totalFrames;
 
-            const ctxColors = computeColors(runtime.background, runtime.invert);
-            const ctxSeed = `${effectCtxRef.current.baseSeed}-frame-${frameIndex}`;
-            const ctx = {
-              rng: createRng(ctxSeed),
-              data: effectCtxRef.current.data,
-              seedHash: effectCtxRef.current.seedHash,
-              colors: ctxColors,
-            };
-
-            // Use static parameters
-            const effectParams = runtime.params;
-
-            p.background(ctxColors.paper);
-            currentEffect.update(p, ctx, frameIndex / targetFps, frameIndex, effectParams);
-            currentEffect.render(p, ctx, frameIndex / targetFps, frameIndex, effectParams);
+            if (frameIndex !== renderedFrame) {
+              const sequential = frameIndex === renderedFrame + 1;
+              compositor.renderFrame(frameIndex, targetFps);
+              // Seeks replay many frames at once and would skew the measurement.
+              if (sequential && !offscreen) trackFrameTime(performance.now() - startedAt);
+              renderedFrame = frameIndex;
+              if (runtime.transparent) compositor.makePaperTransparent();
+            } else if (layersUpdated) {
+              compositor.redraw();
+              if (runtime.transparent) compositor.makePaperTransparent();
+            }
 
             if (frameIndex !== lastFrameReported) {
               lastFrameReported = frameIndex;
@@ -283,6 +454,7 @@ export function CanvasHost() {
 
     return () => {
       mounted = false;
+      compositor?.dispose();
       if (instance) {
         instance.remove();
       }
@@ -292,7 +464,12 @@ export function CanvasHost() {
   return (
     <div
       ref={containerRef}
-      className="relative flex h-full w-full items-center justify-center bg-paper"
+      className={clsx(
+        "relative flex h-full w-full items-center justify-center",
+        transparent ? "bg-transparent" : "bg-paper",
+        // p5 sizes the canvas inline; object-contain keeps the aspect ratio when scaled.
+        fit && "[&_canvas]:!h-full [&_canvas]:!w-full [&_canvas]:object-contain",
+      )}
     />
   );
 }
@@ -302,68 +479,77 @@ export type ExportConfig = {
   height: number;
   fps: number;
   durationSec: number;
+  /** Active layer's effect, kept for file naming and single-effect manifests. */
   effectId: string;
+  /** Active layer's params, kept for file naming and single-effect manifests. */
   params: ParamValues;
+  layers: EffectLayer[];
   seed: string;
   background: Background;
   invert: boolean;
+  loopMode: boolean;
+  /** Preview-only buffer scale (see `CompositionConfig`); exports leave it unset and render at full size. */
+  renderScale?: number;
+};
+
+export type ExportSketch = p5 & {
+  renderFrame: (frameIndex: number) => void;
+  /** Prepares the simulation so the next `renderFrame(frameIndex)` matches sequential playback. */
+  seek: (frameIndex: number) => void;
+  /** Releases the layer buffers (which p5 attaches outside the container) and the sketch. */
+  dispose: () => void;
 };
 
 export async function createExportSketch(
   config: ExportConfig,
   container: HTMLElement,
-): Promise<p5> {
+): Promise<ExportSketch> {
   const { default: P5Constructor } = await import("p5");
-  const effect = getEffect(config.effectId);
-  const colors = computeColors(config.background, config.invert);
-  const seedHash = hashSeed(config.seed);
-  let effectData: Record<string, unknown> = {};
-
-  const sketch = (p: p5) => {
-    const targetFps = Math.max(1, config.fps);
-
-    const runInit = () => {
-      effectData = {};
-      p.noSmooth();
-      p.pixelDensity(1);
-      p.background(colors.paper);
-      effect.init(
-        p,
-        {
-          rng: createRng(`${config.seed}-init`),
-          data: effectData,
-          seedHash,
-          colors,
-        },
-        config.params,
-      );
-    };
 
-    const renderFrame = (frameIndex: number) => {
-      const ctx = {
-        rng: createRng(`${config.seed}-frame-${frameIndex}`),
-        data: effectData,
-        seedHash,
-        colors,
+  return new Promise<ExportSketch>((resolve, reject) => {
+    const sketch = (p: p5) => {
+      const targetFps = Math.max(1, config.fps);
+      const compositor = createCompositor(p);
+
+      const renderFrame = (frameIndex: number) => {
+        compositor.renderFrame(frameIndex, targetFps);
       };
-      const time = frameIndex / targetFps;
-      p.background(colors.paper);
-      effect.update(p, ctx, time, frameIndex, config.params);
-      effect.render(p, ctx, time, frameIndex, config.params);
-    };
 
-    (p as unknown as { renderFrame: (frame: number) => void }).renderFrame = renderFrame;
+      (p as ExportSketch).renderFrame = renderFrame;
+      (p as ExportSketch).seek = (frameIndex) => compositor.seek(frameIndex, targetFps);
+      (p as ExportSketch).dispose = () => {
+        compositor.dispose();
+        p.remove();
+      };
 
-    p.setup = () => {
-      p.createCanvas(config.width, config.height);
-      runInit();
-    };
+      p.setup = () => {
+        try {
+          // reset sizes the canvas to the buffers, which a preview scale may shrink.
+          p.createCanvas(1, 1);
+          compositor.reset({
+            width: config.width,
+            height: config.height,
+            seed: config.seed,
+            background: config.background,
+            invert: config.invert,
+            durationSec: config.durationSec,
+            loopMode: config.loopMode,
+            layers: config.layers,
+            renderScale: config.renderScale,
+          });
+          // p5 runs setup asynchronously, so callers can only render once it has completed.
+          resolve(p as ExportSketch);
+        } catch (error) {
+          reject(error);
+        }
+      };
 
-    p.draw = () => {
-      // no-op; frames rendered manually during export
-      p.noLoop();
+      p.draw = () => {
+        // no-op; frames rendered manually during export
+        p.noLoop();
+      };
     };
-  };
 
-  return new P5Constructor(sketch, container);
+    new P5Constructor(sketch, container);
+  });
 }
@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import { createExportSketch, type ExportSketch } from "@/components/CanvasHost";
+import { createCanvasError, errorManager } from "@/lib/errorHandling";
+import { createExportConfig } from "@/lib/exportFrames";
+import { useCompareStore } from "@/store/useCompare";
+import { useEditorStore } from "@/store/useEditor";
+
+const tagClass = "border border-ink bg-paper px-1 text-[9px] uppercase tracking-[0.12em]";
+
+/**
+ * Draws the pinned compare target over the right side of the preview. It shares
+ * the preview's size, fps and duration and follows its frame clock, so both
+ * halves show the same frame.
+ */
+export function CompareOverlay() {
+  const target = useCompareStore((state) => state.target);
+  const split = useCompareStore((state) => state.split);
+  const setSplit = useCompareStore((state) => state.setSplit);
+  const width = useEditorStore((state) => state.width);
+  const height = useEditorStore((state) => state.height);
+  const fps = useEditorStore((state) => state.fps);
+  const durationSec = useEditorStore((state) => state.durationSec);
+  // Matches the preview's resolution so a huge canvas doesn't render twice at full size.
+  const renderScale = useEditorStore((state) => state.previewQuality?.previewScale ?? 1);
+  const boxRef = useRef<HTMLDivElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!target || !container) return;
+    let cancelled = false;
+    let sketch: ExportSketch | null = null;
+    let lastFrame = -1;
+
+    const render = (frame: number) => {
+      if (!sketch) return;
+      // Loop wraps and seeks in the preview replay the pinned state to the same frame.
+      if (frame !== lastFrame + 1) sketch.seek(frame);
+      sketch.renderFrame(frame);
+      lastFrame = frame;
+    };
+
+    const config = { ...createExportConfig({ ...target.snapshot, width, height, fps, durationSec }), renderScale };
+    createExportSketch(config, container)
+      .then((created) => {
+        if (cancelled) {
+          created.dispose();
+          return;
+        }
+        sketch = created;
+        render(useEditorStore.getState().currentFrame);
+      })
+      .catch((error) => {
+        errorManager.handleError(createCanvasError("compare-setup", error as Error));
+      });
+
+    const unsubscribe = useEditorStore.subscribe((state, previous) => {
+      if (state.currentFrame !== previous.currentFrame) render(state.currentFrame);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      sketch?.dispose();
+    };
+  }, [target, width, height, fps, durationSec, renderScale]);
+
+  if (!target) return null;
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    const rect = boxRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setSplit((event.clientX - rect.left) / rect.width);
+  };
+
+  return (
+    <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+      <div ref={boxRef} className="relative flex-shrink-0" style={{ width, height }}>
+        <div
+          ref={containerRef}
+          className="absolute inset-0"
+          style={{ clipPath: `inset(0 0 0 ${split * 100}%)` }}
+        />
+        <span className={`absolute left-1 top-1 ${tagClass}`}>Current</span>
+        <span className={`absolute right-1 top-1 max-w-[45%] truncate ${tagClass}`} title={target.label}>
+          {target.label}
+        </span>
+        <div
+          role="separator"
+          aria-orientation="vertical"
+          aria-valuenow={Math.round(split * 100)}
+          title="Drag to move the divider; double-click to center it"
+          onPointerDown={(event) => event.currentTarget.setPointerCapture(event.pointerId)}
+          onPointerMove={handlePointerMove}
+          onDoubleClick={() => setSplit(0.5)}
+          className="pointer-events-auto absolute bottom-0 top-0 w-3 -translate-x-1/2 cursor-ew-resize touch-none"
+          style={{ left: `${split * 100}%` }}
+        >
+          <div className="mx-auto h-full w-px bg-alert" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { listPresets, type PresetRecord } from "@/lib/storage";
+import { useCompareStore } from "@/store/useCompare";
+import { getEditorSnapshot, resolveStoredState, useEditorStore } from "@/store/useEditor";
+import { useHistoryStore } from "@/store/useHistory";
+
+/** How many history steps back the source list offers. */
+const MAX_HISTORY_SOURCES = 20;
+
+const buttonClass =
+  "border border-ink px-2 py-1 uppercase hover:bg-ink hover:text-paper disabled:opacity-40 disabled:hover:bg-paper disabled:hover:text-ink";
+
+/**
+ * Picks what the split-canvas compare shows on the right: a frozen copy of the
+ * current state, the state before the last N edits, or a saved preset.
+ */
+export function ComparePanel() {
+  const target = useCompareStore((state) => state.target);
+  const pin = useCompareStore((state) => state.pin);
+  const swap = useCompareStore((state) => state.swap);
+  const clear = useCompareStore((state) => state.clear);
+  const past = useHistoryStore((state) => state.past);
+  const [source, setSource] = useState("current");
+  const [presets, setPresets] = useState<PresetRecord[]>([]);
+
+  const refreshPresets = () => {
+    void listPresets().then(setPresets);
+  };
+
+  useEffect(() => {
+    refreshPresets();
+  }, []);
+
+  const historySteps = Math.min(past.length, MAX_HISTORY_SOURCES);
+
+  const handlePin = () => {
+    const [kind, value] = source.split(":");
+    if (kind === "history") {
+      const steps = Number(value);
+      const entry = past[past.length - steps];
+      if (!entry) return;
+      pin({ label: `${steps} edit${steps === 1 ? "" : "s"} ago`, snapshot: entry.before });
+    } else if (kind === "preset") {
+      const preset = presets.find((record) => record.id === value);
+      if (!preset) return;
+      pin({ label: preset.name, snapshot: resolveStoredState(preset.data).snapshot });
+    } else {
+      pin({ label: "Pinned", snapshot: getEditorSnapshot(useEditorStore.getState()) });
+    }
+  };
+
+  return (
+    <section className="flex flex-col border border-ink bg-paper text-xs uppercase tracking-[0.12em]">
+      <div className="flex items-center justify-between gap-2 border-b border-ink px-4 py-2">
+        <h2 className="text-sm font-semibold normal-case">Compare</h2>
+        <div className="flex items-center gap-2 text-[10px]">
+          <button
+            type="button"
+            disabled={!target}
+            onClick={swap}
+            title="Load the right side into the editor and pin the current state"
+            className={buttonClass}
+          >
+            Swap
+          </button>
+          <button
+            type="button"
+            disabled={!target}
+            onClick={clear}
+            className="border border-ink px-2 py-1 uppercase hover:bg-alert hover:text-paper disabled:opacity-40 disabled:hover:bg-paper disabled:hover:text-ink"
+          >
+            Exit
+          </button>
+        </div>
+      </div>
+      <div className="flex items-center gap-2 px-4 py-2 text-[10px]">
+        <select
+          value={source}
+          onChange={(event) => setSource(event.target.value)}
+          onFocus={refreshPresets}
+          aria-label="Compare against"
+          className="min-w-0 flex-1 border border-ink bg-paper px-2 py-1 normal-case"
+        >
+          <option value="current">Current state (frozen)</option>
+          {historySteps > 0 && (
+            <optgroup label="Before recent edits">
+              {Array.from({ length: historySteps }, (_, index) => {
+                const steps = index + 1;
+                const entry = past[past.length - steps];
+                return (
+                  <option key={entry.id} value={`history:${steps}`}>
+                    {steps} edit{steps === 1 ? "" : "s"} ago · before {entry.label}
+                  </option>
+                );
+              })}
+            </optgroup>
+          )}
+          {presets.length > 0 && (
+            <optgroup label="Presets">
+              {presets.map((preset) => (
+                <option key={preset.id} value={`preset:${preset.id}`}>
+                  {preset.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button type="button" onClick={handlePin} className={buttonClass}>
+          {target ? "Re-pin" : "Compare"}
+        </button>
+      </div>
+      {target && (
+        <p className="border-t border-line px-4 py-2 text-[10px] tracking-[0.2em] opacity-70">
+          Right of the divider: <span className="normal-case">{target.label}</span>
+        </p>
+      )}
+    </section>
+  );
+}
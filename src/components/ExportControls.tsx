@@ -0,0 +1,206 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import type { ExportConfig } from "@/components/CanvasHost";
+import { createExportError, errorManager } from "@/lib/errorHandling";
+import {
+  ExportCancelledError,
+  buildExportFilename,
+  downloadBlob,
+  getExportConfig,
+  type ExportOptions,
+  type ExportProgress,
+} from "@/lib/exportFrames";
+import { exportGif, type GifPaletteSize } from "@/lib/gifExport";
+import { shouldWarnLargeExport } from "@/lib/qualityManager";
+import { exportWebm, isVideoExportSupported } from "@/lib/videoExport";
+import { exportPngSequence } from "@/lib/zipExport";
+import { useEditorStore } from "@/store/useEditor";
+import { useNotificationStore } from "@/store/useNotifications";
+
+type ExportFormat = "gif" | "png-zip" | "webm";
+
+type ExportTarget = {
+  label: string;
+  extension: string;
+  isSupported?: () => boolean;
+  run: (config: ExportConfig, options: ExportOptions & { paletteSize: GifPaletteSize }) => Promise<Blob>;
+};
+
+const EXPORT_TARGETS: Record<ExportFormat, ExportTarget> = {
+  gif: {
+    label: "GIF",
+    extension: "gif",
+    run: (config, options) => exportGif(config, options),
+  },
+  "png-zip": {
+    label: "PNG ZIP",
+    extension: "zip",
+    run: (config, options) => exportPngSequence(config, options),
+  },
+  webm: {
+    label: "WebM",
+    extension: "webm",
+    isSupported: isVideoExportSupported,
+    run: (config, options) => exportWebm(config, options),
+  },
+};
+
+const PALETTE_OPTIONS: { value: GifPaletteSize; label: string }[] = [
+  { value: 2, label: "2 colors" },
+  { value: 4, label: "4 greys" },
+  { value: 16, label: "16 greys" },
+];
+
+export function ExportControls() {
+  const addNotification = useNotificationStore((state) => state.addNotification);
+  const enableWarnings = useEditorStore((state) => state.enableWarnings);
+  const [format, setFormat] = useState<ExportFormat>("gif");
+  const [paletteSize, setPaletteSize] = useState<GifPaletteSize>(2);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [pendingWarning, setPendingWarning] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const busy = progress !== null;
+  const target = EXPORT_TARGETS[format];
+
+  const runExport = async () => {
+    const config = getExportConfig();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ frame: 0, totalFrames: 1 });
+
+    try {
+      const blob = await target.run(config, {
+        paletteSize,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      downloadBlob(blob, buildExportFilename(config, target.extension));
+      addNotification(`${target.label} exported`, "success");
+    } catch (error) {
+      if (error instanceof ExportCancelledError) {
+        addNotification("Export cancelled", "info");
+      } else {
+        await errorManager.handleError(
+          createExportError(`export-${format}`, error as Error, {
+            effectId: config.effectId,
+            width: config.width,
+            height: config.height,
+            fps: config.fps,
+            durationSec: config.durationSec,
+          }),
+        );
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleExport = () => {
+    if (busy) return;
+    if (target.isSupported && !target.isSupported()) {
+      addNotification(`${target.label} export is not supported in this browser`, "error");
+      return;
+    }
+    const config = getExportConfig();
+    const check = shouldWarnLargeExport(config.width, config.height, config.fps, config.durationSec);
+    if (enableWarnings && check.warn) {
+      setPendingWarning(check.reason ?? "This export may take a long time.");
+      return;
+    }
+    void runExport();
+  };
+
+  const handleConfirmWarning = () => {
+    setPendingWarning(null);
+    void runExport();
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const percent = progress ? Math.round((progress.frame / progress.totalFrames) * 100) : 0;
+
+  if (pendingWarning) {
+    return (
+      <div className="flex items-center gap-2" role="alertdialog" aria-label="Large export warning">
+        <span className="max-w-[280px] border border-alert px-3 py-2 normal-case text-alert">
+          {pendingWarning}
+        </span>
+        <button
+          type="button"
+          onClick={handleConfirmWarning}
+          className="border border-ink bg-paper px-3 py-2 hover:bg-ink hover:text-paper"
+        >
+          Export anyway
+        </button>
+        <button
+          type="button"
+          onClick={() => setPendingWarning(null)}
+          className="border border-ink bg-paper px-3 py-2 hover:bg-ink hover:text-paper"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={format}
+        onChange={(event) => setFormat(event.target.value as ExportFormat)}
+        disabled={busy}
+        className="border border-ink bg-paper px-2 py-2 uppercase"
+        aria-label="Export format"
+      >
+        {(Object.keys(EXPORT_TARGETS) as ExportFormat[]).map((key) => (
+          <option key={key} value={key}>
+            {EXPORT_TARGETS[key].label}
+          </option>
+        ))}
+      </select>
+      {format === "gif" && (
+        <select
+          value={paletteSize}
+          onChange={(event) => setPaletteSize(Number(event.target.value) as GifPaletteSize)}
+          disabled={busy}
+          className="border border-ink bg-paper px-2 py-2 uppercase"
+          aria-label="GIF palette"
+        >
+          {PALETTE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )}
+      {busy ? (
+        <>
+          <span className="min-w-[96px] border border-ink px-3 py-2 text-center">
+            {target.label} {percent}%
+          </span>
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="border border-ink bg-paper px-3 py-2 hover:bg-alert hover:text-paper"
+          >
+            Cancel
+          </button>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={handleExport}
+          className="border border-ink bg-paper px-3 py-2 hover:bg-ink hover:text-paper"
+        >
+          Export {target.label}
+        </button>
+      )}
+    </div>
+  );
+}
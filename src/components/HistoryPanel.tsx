@@ -0,0 +1,86 @@
+"use client";
+
+import clsx from "clsx";
+
+import { useHistoryStore } from "@/store/useHistory";
+
+export function HistoryPanel() {
+  const past = useHistoryStore((state) => state.past);
+  const future = useHistoryStore((state) => state.future);
+  const undo = useHistoryStore((state) => state.undo);
+  const redo = useHistoryStore((state) => state.redo);
+  const jumpTo = useHistoryStore((state) => state.jumpTo);
+  const clear = useHistoryStore((state) => state.clear);
+
+  const currentId = past[past.length - 1]?.id ?? null;
+
+  return (
+    <section className="flex flex-col border border-ink bg-paper text-xs uppercase tracking-[0.12em]">
+      <div className="flex items-center justify-between gap-2 border-b border-ink px-4 py-2">
+        <h2 className="text-sm font-semibold normal-case">History</h2>
+        <div className="flex items-center gap-2 text-[10px]">
+          <button
+            type="button"
+            onClick={undo}
+            disabled={past.length === 0}
+            title="Undo (Ctrl/Cmd+Z)"
+            className="border border-ink px-2 py-1 uppercase hover:bg-ink hover:text-paper disabled:opacity-40 disabled:hover:bg-paper disabled:hover:text-ink"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={redo}
+            disabled={future.length === 0}
+            title="Redo (Shift+Ctrl/Cmd+Z)"
+            className="border border-ink px-2 py-1 uppercase hover:bg-ink hover:text-paper disabled:opacity-40 disabled:hover:bg-paper disabled:hover:text-ink"
+          >
+            Redo
+          </button>
+          <button
+            type="button"
+            onClick={clear}
+            disabled={past.length === 0 && future.length === 0}
+            title="Forget all steps"
+            className="border border-ink px-2 py-1 uppercase hover:bg-alert hover:text-paper disabled:opacity-40 disabled:hover:bg-paper disabled:hover:text-ink"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+      <ol className="flex max-h-48 flex-col overflow-y-auto py-1 normal-case">
+        <li>
+          <button
+            type="button"
+            onClick={() => jumpTo(null)}
+            className={clsx(
+              "w-full px-4 py-1 text-left hover:bg-ink hover:text-paper",
+              currentId === null && "font-semibold",
+            )}
+          >
+            Start
+          </button>
+        </li>
+        {[...past, ...future].map((entry) => {
+          const undone = future.includes(entry);
+          return (
+            <li key={entry.id}>
+              <button
+                type="button"
+                onClick={() => jumpTo(entry.id)}
+                className={clsx(
+                  "w-full truncate px-4 py-1 text-left hover:bg-ink hover:text-paper",
+                  entry.id === currentId && "font-semibold",
+                  undone && "opacity-40",
+                )}
+                title={entry.label}
+              >
+                {entry.label}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+}
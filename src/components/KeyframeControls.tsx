@@ -0,0 +1,72 @@
+"use client";
+
+import clsx from "clsx";
+
+import type { ParamDef } from "@/effects/types";
+import { easingOptions, type EasingType } from "@/lib/easing";
+import { findKeyframe, findSegmentKeyframe } from "@/lib/keyframes";
+import { useEditorStore } from "@/store/useEditor";
+
+/**
+ * Keyframe toggle, count and easing for one param of the active layer. Keys are
+ * set at the current frame; pause playback to land on a specific frame.
+ */
+export function KeyframeControls({ param }: { param: ParamDef }) {
+  const track = useEditorStore(
+    (state) => state.layers.find((layer) => layer.id === state.activeLayerId)?.keyframes?.[param.key],
+  );
+  const pausedFrame = useEditorStore((state) => (state.playing ? null : state.currentFrame));
+  const toggleKeyframe = useEditorStore((state) => state.toggleKeyframe);
+  const setKeyframeEasing = useEditorStore((state) => state.setKeyframeEasing);
+  const clearKeyframes = useEditorStore((state) => state.clearKeyframes);
+
+  const frame = pausedFrame ?? 0;
+  const keyed = pausedFrame !== null && Boolean(findKeyframe(track, frame));
+  const segment = pausedFrame !== null ? findSegmentKeyframe(track, frame) : undefined;
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] uppercase tracking-[0.18em]">
+      <button
+        type="button"
+        onClick={() => toggleKeyframe(param.key, useEditorStore.getState().currentFrame)}
+        title={keyed ? `Remove keyframe at frame ${frame}` : "Add keyframe at the current frame"}
+        aria-pressed={keyed}
+        className={clsx(
+          "w-6 border border-ink py-0.5",
+          keyed ? "bg-ink text-paper" : "bg-paper hover:bg-ink hover:text-paper",
+        )}
+      >
+        {keyed ? "◆" : "◇"}
+      </button>
+      {track && track.length > 0 && (
+        <>
+          <span className="opacity-60">
+            {track.length} key{track.length === 1 ? "" : "s"}
+          </span>
+          {segment && (
+            <select
+              value={segment.easing}
+              onChange={(event) => setKeyframeEasing(param.key, segment.frame, event.target.value as EasingType)}
+              title={`Easing after frame ${segment.frame}`}
+              className="min-w-0 flex-1 border border-ink bg-paper px-1 py-0.5 normal-case"
+              aria-label={`${param.label} easing`}
+            >
+              {easingOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            type="button"
+            onClick={() => clearKeyframes(param.key)}
+            className="ml-auto border border-ink px-1 py-0.5 hover:bg-alert hover:text-paper"
+          >
+            Clear
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+
+import { effects, getEffect } from "@/effects";
+import type { BlendMode, EffectLayer } from "@/effects/types";
+import { blendModes, isLayerVisible } from "@/lib/compositor";
+import { useEditorStore } from "@/store/useEditor";
+
+function ToggleButton({
+  active,
+  label,
+  title,
+  onClick,
+}: {
+  active: boolean;
+  label: string;
+  title: string;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={title}
+      aria-pressed={active}
+      className={clsx(
+        "w-6 border border-ink py-0.5 text-[10px]",
+        active ? "bg-ink text-paper" : "bg-paper hover:bg-ink hover:text-paper",
+      )}
+    >
+      {label}
+    </button>
+  );
+}
+
+export function LayerPanel() {
+  const layers = useEditorStore((state) => state.layers);
+  const activeLayerId = useEditorStore((state) => state.activeLayerId);
+  const addLayer = useEditorStore((state) => state.addLayer);
+  const removeLayer = useEditorStore((state) => state.removeLayer);
+  const updateLayer = useEditorStore((state) => state.updateLayer);
+  const selectLayer = useEditorStore((state) => state.selectLayer);
+  const moveLayer = useEditorStore((state) => state.moveLayer);
+  const duplicateLayer = useEditorStore((state) => state.duplicateLayer);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Layers are stored bottom-to-top; the panel lists the top layer first.
+  const ordered = layers.map((layer, index) => ({ layer, index })).reverse();
+
+  const handleDrop = (index: number) => {
+    if (draggedId) {
+      moveLayer(draggedId, index);
+    }
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  const renderLayer = (layer: EffectLayer, index: number) => {
+    const isActive = layer.id === activeLayerId;
+    const isBase = index === 0;
+    const visible = isLayerVisible(layer, layers);
+
+    return (
+      <li
+        key={layer.id}
+        draggable
+        onDragStart={(event) => {
+          setDraggedId(layer.id);
+          event.dataTransfer.effectAllowed = "move";
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDropIndex(index);
+        }}
+        onDragLeave={() => setDropIndex((current) => (current === index ? null : current))}
+        onDrop={(event) => {
+          event.preventDefault();
+          handleDrop(index);
+        }}
+        onDragEnd={() => {
+          setDraggedId(null);
+          setDropIndex(null);
+        }}
+        className={clsx(
+          "flex flex-col gap-2 border border-ink px-2 py-2",
+          isActive && "shadow-[inset_0_0_0_1px_#000]",
+          dropIndex === index && draggedId !== layer.id && "border-dashed",
+          !visible && "opacity-50",
+        )}
+      >
+        <div className="flex items-center gap-2">
+          <span className="cursor-grab select-none text-[10px] opacity-60" aria-hidden>
+            ⋮⋮
+          </span>
+          <input
+            type="checkbox"
+            checked={layer.enabled}
+            onChange={(event) => updateLayer(layer.id, { enabled: event.target.checked })}
+            aria-label="Enable layer"
+          />
+          <button
+            type="button"
+            onClick={() => selectLayer(layer.id)}
+            className={clsx(
+              "flex-1 min-w-0 truncate text-left uppercase tracking-[0.18em]",
+              isActive ? "font-semibold" : "hover:underline",
+            )}
+            title={getEffect(layer.effectId).name}
+          >
+            {index + 1}. {getEffect(layer.effectId).name}
+          </button>
+          <ToggleButton
+            active={Boolean(layer.solo)}
+            label="S"
+            title="Solo"
+            onClick={() => updateLayer(layer.id, { solo: !layer.solo })}
+          />
+          <ToggleButton
+            active={Boolean(layer.muted)}
+            label="M"
+            title="Mute"
+            onClick={() => updateLayer(layer.id, { muted: !layer.muted })}
+          />
+          <button
+            type="button"
+            onClick={() => duplicateLayer(layer.id)}
+            title="Duplicate layer"
+            className="w-6 border border-ink py-0.5 text-[10px] hover:bg-ink hover:text-paper"
+          >
+            ⧉
+          </button>
+          <button
+            type="button"
+            onClick={() => removeLayer(layer.id)}
+            disabled={layers.length <= 1}
+            title="Remove layer"
+            className="w-6 border border-ink py-0.5 text-[10px] hover:bg-alert hover:text-paper disabled:opacity-40 disabled:hover:bg-paper disabled:hover:text-ink"
+          >
+            ×
+          </button>
+        </div>
+        {isActive && (
+          <div className="grid grid-cols-2 gap-2 normal-case">
+            <select
+              value={layer.effectId}
+              onChange={(event) => updateLayer(layer.id, { effectId: event.target.value })}
+              className="col-span-2 border border-ink bg-paper px-2 py-1"
+              aria-label="Layer effect"
+            >
+              {effects.map((effect) => (
+                <option key={effect.id} value={effect.id}>
+                  {effect.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={isBase ? "normal" : layer.blendMode}
+              onChange={(event) => updateLayer(layer.id, { blendMode: event.target.value as BlendMode })}
+              disabled={isBase}
+              title={isBase ? "The bottom layer always uses normal blending" : undefined}
+              className="border border-ink bg-paper px-2 py-1 disabled:opacity-50"
+              aria-label="Blend mode"
+            >
+              {blendModes.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-[10px] uppercase tracking-[0.18em]">
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={1}
+                value={Math.round(layer.opacity * 100)}
+                onChange={(event) => updateLayer(layer.id, { opacity: Number(event.target.value) / 100 })}
+                className="flex-1 min-w-0"
+                aria-label="Opacity"
+              />
+              <span className="w-8 text-right">{Math.round(layer.opacity * 100)}%</span>
+            </label>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <section className="flex flex-col border border-ink bg-paper text-xs uppercase tracking-[0.12em] max-h-[45vh] overflow-hidden">
+      <div className="flex items-center justify-between border-b border-ink px-4 py-2 flex-shrink-0">
+        <h2 className="text-sm font-semibold normal-case">Layers</h2>
+        <button
+          type="button"
+          onClick={() => addLayer()}
+          className="border border-ink px-2 py-1 text-[10px] uppercase hover:bg-ink hover:text-paper"
+        >
+          + Add Layer
+        </button>
+      </div>
+      <ul className="flex flex-col gap-1 overflow-y-auto p-2">
+        {ordered.map(({ layer, index }) => renderLayer(layer, index))}
+      </ul>
+    </section>
+  );
+}
@@ -3,6 +3,8 @@
 import { useEffect, useRef } from "react";
 import clsx from "clsx";
 
+import { useHistoryStore } from "@/store/useHistory";
+
 export type NumericFieldProps = {
   label: string;
   value: number;
@@ -59,6 +61,8 @@ export function NumericField({
 
     document.body.style.userSelect = "none";
     target.setPointerCapture(pointerId);
+    // A whole drag is one undo step.
+    useHistoryStore.getState().beginTransaction();
     target.classList.add("bg-ink", "text-paper");
 
     const handlePointerMove = (moveEvent: PointerEvent) => {
@@ -81,6 +85,7 @@ export function NumericField({
       target.removeEventListener("pointercancel", handlePointerUp);
       document.body.style.userSelect = originalUserSelect;
       target.classList.remove("bg-ink", "text-paper");
+      useHistoryStore.getState().endTransaction();
     };
 
     target.addEventListener("pointermove", handlePointerMove);
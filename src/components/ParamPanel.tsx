@@ -1,9 +1,16 @@
 "use client";
 
+import { useState } from "react";
+
 import { getEffect } from "@/effects";
 import { NumericField } from "@/components/NumericField";
 import { PresetManager } from "@/components/PresetManager";
 import { ColorControl, Vector2Control, CurveControl, RangeControl } from "@/components/CustomParamControls";
+import { KeyframeControls } from "@/components/KeyframeControls";
+import type { ParamDef, ParamValue } from "@/effects/types";
+import { evaluateLayerParams, isKeyframeable } from "@/lib/keyframes";
+import { isRandomizable, type RandomizeMode } from "@/lib/paramRandomizer";
+import { generateSeed } from "@/lib/rng";
 import { useEditorStore } from "@/store/useEditor";
 
 function ParamRow({ label, children }: { label: string; children: React.ReactNode }) {
@@ -27,12 +34,204 @@ function BooleanControl({ value, onToggle }: { value: boolean; onToggle: () => v
   );
 }
 
+const DEFAULT_MUTATE_PERCENT = 15;
+
+function RandomizerControls() {
+  const randomizeParams = useEditorStore((state) => state.randomizeParams);
+  const [rollSeed, setRollSeed] = useState("");
+  const [percent, setPercent] = useState(DEFAULT_MUTATE_PERCENT);
+  const [lastRoll, setLastRoll] = useState<string | null>(null);
+
+  const roll = (mode: RandomizeMode) => {
+    // A typed seed repeats a roll exactly; left empty, every roll is new.
+    const seed = rollSeed.trim().toUpperCase() || generateSeed();
+    randomizeParams({ seed, mode, amount: percent / 100 });
+    setLastRoll(seed);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 border-b border-ink p-4 text-[10px]">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => roll("randomize")}
+          className="border border-ink px-2 py-1 uppercase hover:bg-ink hover:text-paper"
+        >
+          Randomize
+        </button>
+        <button
+          type="button"
+          onClick={() => roll("mutate")}
+          className="border border-ink px-2 py-1 uppercase hover:bg-ink hover:text-paper"
+        >
+          Mutate
+        </button>
+        <label className="flex items-center gap-1" title="How far Mutate may move each param, as a share of its range">
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={percent}
+            onChange={(event) => {
+              const next = Number(event.target.value);
+              if (Number.isFinite(next)) setPercent(Math.max(1, Math.min(100, Math.round(next))));
+            }}
+            className="w-12 border border-ink bg-paper px-1 py-1"
+          />
+          %
+        </label>
+      </div>
+      <label className="flex items-center gap-2">
+        <span className="tracking-[0.2em] opacity-70">Roll seed</span>
+        <input
+          value={rollSeed}
+          onChange={(event) => setRollSeed(event.target.value)}
+          placeholder={lastRoll ?? "Random"}
+          className="min-w-0 flex-1 border border-ink bg-paper px-2 py-1 uppercase"
+        />
+      </label>
+      {lastRoll && !rollSeed && (
+        <span className="normal-case opacity-60">Last roll {lastRoll}; type it above to repeat it.</span>
+      )}
+    </div>
+  );
+}
+
 export function ParamPanel() {
   const effectId = useEditorStore((state) => state.effectId);
   const params = useEditorStore((state) => state.params);
   const setParam = useEditorStore((state) => state.setParam);
+  const layers = useEditorStore((state) => state.layers);
+  const activeLayerId = useEditorStore((state) => state.activeLayerId);
+  const pausedFrame = useEditorStore((state) => (state.playing ? null : state.currentFrame));
+  const lockedParams = useEditorStore((state) => state.lockedParams);
+  const toggleParamLock = useEditorStore((state) => state.toggleParamLock);
 
   const effect = getEffect(effectId);
+  const activeLayerIndex = layers.findIndex((layer) => layer.id === activeLayerId);
+  const activeLayer = layers[activeLayerIndex];
+  const locked = lockedParams[effectId] ?? [];
+  // While paused, keyframed params show the value rendered at the current frame.
+  const values = activeLayer && pausedFrame !== null ? evaluateLayerParams(effect, activeLayer, pausedFrame) : params;
+
+  const renderControl = (param: ParamDef, current: ParamValue | undefined) => {
+    const key = param.key;
+
+    switch (param.type) {
+      case "number":
+      case "int":
+        return (
+          <div key={key}>
+            <NumericField
+              label={param.label}
+              value={Number(current ?? effect.defaults[key] ?? 0)}
+              min={param.min}
+              max={param.max}
+              step={param.step}
+              integer={param.type === "int"}
+              disabled={false}
+              onChange={(next) => {
+                const value = param.type === "int" ? Math.round(next) : Number(next.toFixed(6));
+                setParam(key, value);
+              }}
+            />
+          </div>
+        );
+      case "boolean":
+        return (
+          <ParamRow key={key} label={param.label}>
+            <BooleanControl
+              value={Boolean(current)}
+              onToggle={() => setParam(key, !Boolean(current))}
+            />
+          </ParamRow>
+        );
+      case "select":
+        return (
+          <ParamRow key={key} label={param.label}>
+            <select
+              value={String(current)}
+              onChange={(event) => setParam(key, event.target.value)}
+              className="border border-ink bg-paper px-3 py-1 capitalize"
+            >
+              {param.options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </ParamRow>
+        );
+      case "text":
+      case "seed":
+        return (
+          <ParamRow key={key} label={param.label}>
+            <input
+              value={String(current ?? "")}
+              onChange={(event) => setParam(key, event.target.value)}
+              className="border border-ink bg-paper px-3 py-1"
+            />
+          </ParamRow>
+        );
+      case "color":
+        return (
+          <div key={key}>
+            <ColorControl
+              value={String(current ?? "#000000")}
+              onChange={(value) => setParam(key, value)}
+              monochrome={param.monochrome}
+              label={param.label}
+            />
+          </div>
+        );
+      case "vector2":
+        const vec2Value = typeof current === 'object' && current !== null
+          ? current as { x: number; y: number }
+          : { x: 0, y: 0 };
+        return (
+          <div key={key}>
+            <Vector2Control
+              value={vec2Value}
+              onChange={(value) => setParam(key, value)}
+              min={param.min}
+              max={param.max}
+              label={param.label}
+            />
+          </div>
+        );
+      case "curve":
+        const curveValue = Array.isArray(current)
+          ? current as { x: number; y: number }[]
+          : param.points || [{ x: 0, y: 0 }, { x: 1, y: 1 }];
+        return (
+          <div key={key}>
+            <CurveControl
+              value={curveValue}
+              onChange={(value) => setParam(key, value)}
+              label={param.label}
+            />
+          </div>
+        );
+      case "range":
+        const rangeValue = typeof current === 'object' && current !== null
+          ? current as { min: number; max: number }
+          : { min: param.min, max: param.max };
+        return (
+          <div key={key}>
+            <RangeControl
+              value={rangeValue}
+              onChange={(value) => setParam(key, value)}
+              min={param.min}
+              max={param.max}
+              step={param.step}
+              label={param.label}
+            />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
 
   return (
     <aside className="flex w-full max-w-[320px] flex-col border border-ink bg-paper text-xs uppercase tracking-[0.12em] h-full overflow-hidden">
@@ -40,132 +239,40 @@ export function ParamPanel() {
         <h2 className="text-sm font-semibold normal-case">
           {effect.name}
         </h2>
+        {layers.length > 1 && (
+          <span className="text-[10px] uppercase tracking-[0.2em] opacity-60">
+            Layer {activeLayerIndex + 1} of {layers.length}
+          </span>
+        )}
       </div>
+      {effect.params.some(isRandomizable) && <RandomizerControls />}
       <div className="flex flex-col gap-3 normal-case p-4 overflow-y-auto flex-1">
         {effect.params.length === 0 && (
           <p className="text-xs uppercase tracking-[0.2em] text-ink opacity-60">
             No parameters for this effect.
           </p>
         )}
-        {effect.params.map((param) => {
-          const key = param.key;
-          const current = params[key];
-
-          switch (param.type) {
-            case "number":
-            case "int":
-              return (
-                <div key={key}>
-                  <NumericField
-                    label={param.label}
-                    value={Number(current ?? effect.defaults[key] ?? 0)}
-                    min={param.min}
-                    max={param.max}
-                    step={param.step}
-                    integer={param.type === "int"}
-                    disabled={false}
-                    onChange={(next) => {
-                      const value = param.type === "int" ? Math.round(next) : Number(next.toFixed(6));
-                      setParam(key, value);
-                    }}
-                  />
-                </div>
-              );
-            case "boolean":
-              return (
-                <ParamRow key={key} label={param.label}>
-                  <BooleanControl
-                    value={Boolean(current)}
-                    onToggle={() => setParam(key, !Boolean(current))}
-                  />
-                </ParamRow>
-              );
-            case "select":
-              return (
-                <ParamRow key={key} label={param.label}>
-                  <select
-                    value={String(current)}
-                    onChange={(event) => setParam(key, event.target.value)}
-                    className="border border-ink bg-paper px-3 py-1 capitalize"
-                  >
-                    {param.options.map((option) => (
-                      <option key={option} value={option}>
-                        {option}
-                      </option>
-                    ))}
-                  </select>
-                </ParamRow>
-              );
-            case "text":
-            case "seed":
-              return (
-                <ParamRow key={key} label={param.label}>
-                  <input
-                    value={String(current ?? "")}
-                    onChange={(event) => setParam(key, event.target.value)}
-                    className="border border-ink bg-paper px-3 py-1"
-                  />
-                </ParamRow>
-              );
-            case "color":
-              return (
-                <div key={key}>
-                  <ColorControl
-                    value={String(current ?? "#000000")}
-                    onChange={(value) => setParam(key, value)}
-                    monochrome={param.monochrome}
-                    label={param.label}
-                  />
-                </div>
-              );
-            case "vector2":
-              const vec2Value = typeof current === 'object' && current !== null
-                ? current as { x: number; y: number }
-                : { x: 0, y: 0 };
-              return (
-                <div key={key}>
-                  <Vector2Control
-                    value={vec2Value}
-                    onChange={(value) => setParam(key, value)}
-                    min={param.min}
-                    max={param.max}
-                    label={param.label}
-                  />
-                </div>
-              );
-            case "curve":
-              const curveValue = Array.isArray(current)
-                ? current as { x: number; y: number }[]
-                : param.points || [{ x: 0, y: 0 }, { x: 1, y: 1 }];
-              return (
-                <div key={key}>
-                  <CurveControl
-                    value={curveValue}
-                    onChange={(value) => setParam(key, value)}
-                    label={param.label}
-                  />
-                </div>
-              );
-            case "range":
-              const rangeValue = typeof current === 'object' && current !== null
-                ? current as { min: number; max: number }
-                : { min: param.min, max: param.max };
-              return (
-                <div key={key}>
-                  <RangeControl
-                    value={rangeValue}
-                    onChange={(value) => setParam(key, value)}
-                    min={param.min}
-                    max={param.max}
-                    step={param.step}
-                    label={param.label}
-                  />
-                </div>
-              );
-            default:
-              return null;
-          }
-        })}
+        {effect.params.map((param) => (
+          <div key={param.key} className="flex flex-col gap-1">
+            <div className="flex items-start gap-2">
+              <div className="min-w-0 flex-1">{renderControl(param, values[param.key])}</div>
+              {isRandomizable(param) && (
+                <button
+                  type="button"
+                  onClick={() => toggleParamLock(param.key)}
+                  aria-pressed={locked.includes(param.key)}
+                  title={locked.includes(param.key) ? "Locked: Randomize and Mutate skip this" : "Lock against Randomize and Mutate"}
+                  className={`flex-shrink-0 border px-1 text-[9px] uppercase tracking-[0.12em] ${
+                    locked.includes(param.key) ? "border-ink bg-ink text-paper" : "border-line hover:border-ink"
+                  }`}
+                >
+                  {locked.includes(param.key) ? "Locked" : "Lock"}
+                </button>
+              )}
+            </div>
+            {isKeyframeable(param) && <KeyframeControls param={param} />}
+          </div>
+        ))}
         <PresetManager />
       </div>
     </aside>
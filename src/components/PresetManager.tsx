@@ -1,31 +1,230 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import clsx from "clsx";
 
+import { PresetMorph } from "@/components/PresetMorph";
+import { PresetThumbnail } from "@/components/PresetThumbnail";
+import type { ExportConfig } from "@/components/CanvasHost";
+import { getEffect } from "@/effects";
+import { safeOperation } from "@/lib/errorHandling";
+import { createExportConfig, downloadBlob, getExportConfig } from "@/lib/exportFrames";
+import { migrateStoredState } from "@/lib/migrations";
+import { createPresetFile, parsePresetFile, type PresetRejection } from "@/lib/presetSchema";
+import {
+  ALL_FOLDERS,
+  filterPresets,
+  getPresetFolders,
+  getPresetTags,
+  presetSorts,
+  sortPresets,
+  type PresetSort,
+} from "@/lib/presetFilters";
+import { capturePresetThumbnail } from "@/lib/presetThumbnails";
 import type { PresetRecord } from "@/lib/storage";
-import { deletePreset, listPresets, savePreset } from "@/lib/storage";
-import { getStoredStateSnapshot, useEditorStore } from "@/store/useEditor";
+import {
+  deletePreset,
+  duplicatePreset,
+  getStorageUsage,
+  importPresets,
+  listPresets,
+  savePreset,
+  setPresetThumbnail,
+  updatePreset,
+  updatePresetDetails,
+  type PresetDetails,
+  type StorageUsage,
+} from "@/lib/storage";
+import { getStoredStateSnapshot, resolveStoredState, useEditorStore } from "@/store/useEditor";
 import { useNotificationStore } from "@/store/useNotifications";
 
+const toFileSlug = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "preset";
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const captureThumbnail = (config: ExportConfig) =>
+  safeOperation<Blob | undefined>(() => capturePresetThumbnail(config), undefined, {
+    category: "export",
+    operation: "capture-thumbnail",
+    severity: "low",
+  });
+
+const downloadPresets = (records: PresetRecord[], filename: string) => {
+  const json = JSON.stringify(createPresetFile(records), null, 2);
+  downloadBlob(new Blob([json], { type: "application/json" }), filename);
+};
+
+const parseTags = (value: string) => value.split(",").map((tag) => tag.trim()).filter(Boolean);
+
+const smallButton =
+  "border border-ink px-2 py-1 text-[10px] uppercase hover:bg-ink hover:text-paper disabled:opacity-40 disabled:hover:bg-paper disabled:hover:text-ink";
+
+function PresetEditor({
+  preset,
+  folders,
+  busy,
+  onSaveDetails,
+  onOverwrite,
+  onDuplicate,
+  onRenderThumbnail,
+  onExport,
+  onDelete,
+  onClose,
+}: {
+  preset: PresetRecord;
+  folders: string[];
+  busy: boolean;
+  onSaveDetails: (details: PresetDetails) => void;
+  onOverwrite: () => void;
+  onDuplicate: () => void;
+  onRenderThumbnail: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState(preset.name);
+  const [folder, setFolder] = useState(preset.folder);
+  const [tags, setTags] = useState(preset.tags.join(", "));
+  const [confirmOverwrite, setConfirmOverwrite] = useState(false);
+
+  const dirty = name.trim() !== preset.name || folder.trim() !== preset.folder || tags !== preset.tags.join(", ");
+  const fieldClass = "border border-ink bg-paper px-2 py-1 text-xs tracking-normal normal-case";
+
+  return (
+    <div className="mb-3 flex flex-col gap-2 border border-ink p-2 text-[10px]">
+      <div className="flex items-center justify-between tracking-[0.2em]">
+        <span className="font-semibold">Edit Preset</span>
+        <button type="button" onClick={onClose} className="uppercase hover:underline">
+          Close
+        </button>
+      </div>
+      <label className="flex flex-col gap-1 tracking-[0.2em]">
+        Name
+        <input value={name} onChange={(event) => setName(event.target.value)} className={fieldClass} />
+      </label>
+      <label className="flex flex-col gap-1 tracking-[0.2em]">
+        Folder
+        <input
+          value={folder}
+          onChange={(event) => setFolder(event.target.value)}
+          placeholder="None"
+          list="preset-folders"
+          className={fieldClass}
+        />
+        <datalist id="preset-folders">
+          {folders.map((option) => (
+            <option key={option} value={option} />
+          ))}
+        </datalist>
+      </label>
+      <label className="flex flex-col gap-1 tracking-[0.2em]">
+        Tags
+        <input
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+          placeholder="comma, separated"
+          className={fieldClass}
+        />
+      </label>
+      <div className="flex flex-wrap gap-1">
+        <button
+          type="button"
+          disabled={!dirty || busy}
+          onClick={() => onSaveDetails({ name, folder, tags: parseTags(tags) })}
+          className={smallButton}
+        >
+          Apply
+        </button>
+        {confirmOverwrite ? (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => {
+              setConfirmOverwrite(false);
+              onOverwrite();
+            }}
+            className="border border-alert px-2 py-1 text-[10px] uppercase text-alert hover:bg-alert hover:text-paper disabled:opacity-40"
+          >
+            Confirm Overwrite
+          </button>
+        ) : (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => setConfirmOverwrite(true)}
+            title="Replace this preset with the current editor state"
+            className={smallButton}
+          >
+            Overwrite
+          </button>
+        )}
+        <button type="button" disabled={busy} onClick={onDuplicate} className={smallButton}>
+          Duplicate
+        </button>
+        <button type="button" disabled={busy} onClick={onRenderThumbnail} title="Re-render the thumbnail" className={smallButton}>
+          Thumbnail
+        </button>
+        <button type="button" onClick={onExport} title="Export as JSON" className={smallButton}>
+          Export
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={onDelete}
+          className="border border-ink px-2 py-1 text-[10px] uppercase hover:bg-alert hover:text-paper disabled:opacity-40"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export function PresetManager() {
   const [presets, setPresets] = useState<PresetRecord[]>([]);
   const [name, setName] = useState("");
+  const [rejected, setRejected] = useState<PresetRejection[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [folderFilter, setFolderFilter] = useState(ALL_FOLDERS);
+  const [sort, setSort] = useState<PresetSort>("recent");
+  /** Bumped per preset when its thumbnail is re-rendered, so the tile reloads it. */
+  const [thumbnailVersions, setThumbnailVersions] = useState<Record<string, number>>({});
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const loadFromStoredState = useEditorStore((state) => state.loadFromStoredState);
   const addNotification = useNotificationStore((state) => state.addNotification);
 
-  const refresh = () => {
-    setPresets(listPresets());
+  const refresh = async () => {
+    const [records, estimate] = await Promise.all([listPresets(), getStorageUsage()]);
+    setPresets(records);
+    setUsage(estimate);
   };
 
   useEffect(() => {
-    refresh();
+    void refresh();
   }, []);
 
-  const handleSave = () => {
+  const handleSave = async () => {
     const snapshot = getStoredStateSnapshot();
-    const preset = savePreset(name, snapshot);
+    setSaving(true);
+    // A failed capture still saves the preset, just without a thumbnail.
+    const thumbnail = await captureThumbnail(getExportConfig());
+    // Saving while a folder is shown files the new preset there.
+    const folder = folderFilter === ALL_FOLDERS ? "" : folderFilter;
+    const preset = await savePreset(name, snapshot, thumbnail, { folder });
+    setSaving(false);
     setName("");
-    refresh();
+    await refresh();
     if (preset) {
       addNotification(`Saved preset "${preset.name}"`, "success");
     } else {
@@ -33,21 +232,139 @@ export function PresetManager() {
     }
   };
 
+  const folders = getPresetFolders(presets);
+  const tags = getPresetTags(presets);
+  const visiblePresets = sortPresets(filterPresets(presets, { query, folder: folderFilter }), sort);
+  const editingPreset = presets.find((preset) => preset.id === editingId) ?? null;
+
+  useEffect(() => {
+    // Fall back to every folder once the filtered folder has been emptied or renamed.
+    if (folderFilter !== ALL_FOLDERS && folderFilter !== "" && !folders.includes(folderFilter)) {
+      setFolderFilter(ALL_FOLDERS);
+    }
+  }, [folderFilter, folders]);
+
   const handleApply = (preset: PresetRecord) => {
     loadFromStoredState(preset.data);
     addNotification(`Loaded preset "${preset.name}"`, "info");
   };
 
-  const handleDelete = (preset: PresetRecord) => {
-    deletePreset(preset.id);
-    refresh();
-    addNotification(`Deleted preset "${preset.name}"`, "info");
+  const bumpThumbnail = (id: string) =>
+    setThumbnailVersions((current) => ({ ...current, [id]: (current[id] ?? 0) + 1 }));
+
+  const handleRenderThumbnail = async (preset: PresetRecord) => {
+    setBusyId(preset.id);
+    const thumbnail = await captureThumbnail(createExportConfig(resolveStoredState(preset.data).snapshot));
+    if (thumbnail && (await setPresetThumbnail(preset.id, thumbnail))) {
+      bumpThumbnail(preset.id);
+    }
+    setBusyId(null);
+    await refresh();
+  };
+
+  const handleSaveDetails = async (preset: PresetRecord, details: PresetDetails) => {
+    const updated = await updatePresetDetails(preset.id, details);
+    await refresh();
+    if (updated) {
+      addNotification(`Updated preset "${updated.name}"`, "success");
+    }
+  };
+
+  const handleOverwrite = async (preset: PresetRecord) => {
+    setBusyId(preset.id);
+    const snapshot = getStoredStateSnapshot();
+    const thumbnail = await captureThumbnail(getExportConfig());
+    const overwritten = await updatePreset(preset.id, preset.name, snapshot, thumbnail);
+    setBusyId(null);
+    if (thumbnail) bumpThumbnail(preset.id);
+    await refresh();
+    if (overwritten) {
+      addNotification(`Overwrote preset "${preset.name}"`, "success");
+    }
+  };
+
+  const handleDuplicate = async (preset: PresetRecord) => {
+    const copy = await duplicatePreset(preset.id);
+    await refresh();
+    if (copy) {
+      setEditingId(copy.id);
+      addNotification(`Duplicated preset as "${copy.name}"`, "success");
+    }
+  };
+
+  const handleDelete = async (preset: PresetRecord) => {
+    const deleted = await deletePreset(preset.id);
+    if (deleted && editingId === preset.id) setEditingId(null);
+    await refresh();
+    if (deleted) {
+      addNotification(`Deleted preset "${preset.name}"`, "info");
+    }
+  };
+
+  const handleExportAll = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadPresets(presets, `bw-animator-presets-${date}.json`);
+    addNotification(`Exported ${presets.length} preset${presets.length === 1 ? "" : "s"}`, "success");
+  };
+
+  const handleExport = (preset: PresetRecord) => {
+    downloadPresets([preset], `${toFileSlug(preset.name)}.preset.json`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const result = parsePresetFile(await file.text());
+    const accepted = result.accepted.map((record) => ({ ...record, data: migrateStoredState(record.data).state }));
+    const imported = accepted.length > 0 ? await importPresets(accepted) : [];
+    setRejected(result.rejected);
+    await refresh();
+
+    if (imported.length > 0) {
+      addNotification(`Imported ${imported.length} preset${imported.length === 1 ? "" : "s"} from ${file.name}`, "success");
+    }
+    if (result.rejected.length > 0) {
+      addNotification(
+        `Rejected ${result.rejected.length} record${result.rejected.length === 1 ? "" : "s"} from ${file.name}`,
+        "error",
+      );
+    } else if (imported.length === 0) {
+      addNotification(`No presets found in ${file.name}`, "info");
+    }
   };
 
   return (
     <div className="mt-4 border border-ink bg-paper p-3 uppercase">
       <div className="mb-3">
-        <h3 className="text-xs font-semibold tracking-[0.2em] mb-2">Presets</h3>
+        <div className="mb-2 flex items-center justify-between gap-2">
+          <h3 className="text-xs font-semibold tracking-[0.2em]">Presets</h3>
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="border border-ink px-2 py-1 text-[10px] uppercase hover:bg-ink hover:text-paper"
+            >
+              Import
+            </button>
+            <button
+              type="button"
+              onClick={handleExportAll}
+              disabled={presets.length === 0}
+              className="border border-ink px-2 py-1 text-[10px] uppercase hover:bg-ink hover:text-paper disabled:opacity-40 disabled:hover:bg-paper disabled:hover:text-ink"
+            >
+              Export All
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </div>
         <div className="flex items-center gap-2">
           <input
             value={name}
@@ -58,40 +375,164 @@ export function PresetManager() {
           <button
             type="button"
             onClick={handleSave}
-            className="border border-ink px-3 py-1 text-xs hover:bg-ink hover:text-paper flex-shrink-0"
+            disabled={saving}
+            className="border border-ink px-3 py-1 text-xs hover:bg-ink hover:text-paper flex-shrink-0 disabled:opacity-40 disabled:hover:bg-paper disabled:hover:text-ink"
           >
-            Save
+            {saving ? "Saving…" : "Save"}
           </button>
         </div>
       </div>
+      {rejected.length > 0 && (
+        <div className="mb-3 border border-alert px-3 py-2 text-[10px]">
+          <div className="mb-1 flex items-center justify-between gap-2 tracking-[0.2em] text-alert">
+            <span>Rejected on import</span>
+            <button type="button" onClick={() => setRejected([])} className="uppercase hover:underline">
+              Dismiss
+            </button>
+          </div>
+          <ul className="flex max-h-[120px] flex-col gap-1 overflow-y-auto normal-case">
+            {rejected.map((rejection) => (
+              <li key={rejection.index}>
+                <span className="font-semibold">
+                  #{rejection.index + 1}
+                  {rejection.name ? ` "${rejection.name}"` : ""}
+                </span>
+                : {rejection.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {presets.length > 0 && (
+        <div className="mb-3 flex flex-col gap-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search name, #tag, effect"
+            list="preset-tags"
+            className="border border-ink bg-paper px-2 py-1 text-xs tracking-normal normal-case"
+          />
+          <datalist id="preset-tags">
+            {tags.map((tag) => (
+              <option key={tag} value={`#${tag}`} />
+            ))}
+          </datalist>
+          <div className="flex gap-2 text-[10px]">
+            <select
+              value={folderFilter}
+              onChange={(event) => setFolderFilter(event.target.value)}
+              aria-label="Folder"
+              className="min-w-0 flex-1 border border-ink bg-paper px-1 py-1 uppercase"
+            >
+              <option value={ALL_FOLDERS}>All folders</option>
+              <option value="">Unfiled</option>
+              {folders.map((folder) => (
+                <option key={folder} value={folder}>
+                  {folder}
+                </option>
+              ))}
+            </select>
+            <select
+              value={sort}
+              onChange={(event) => setSort(event.target.value as PresetSort)}
+              aria-label="Sort"
+              className="min-w-0 flex-1 border border-ink bg-paper px-1 py-1 uppercase"
+            >
+              {presetSorts.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+      {editingPreset && (
+        <PresetEditor
+          key={`${editingPreset.id}-${editingPreset.name}-${editingPreset.folder}-${editingPreset.tags.join(",")}`}
+          preset={editingPreset}
+          folders={folders}
+          busy={busyId !== null}
+          onSaveDetails={(details) => handleSaveDetails(editingPreset, details)}
+          onOverwrite={() => handleOverwrite(editingPreset)}
+          onDuplicate={() => handleDuplicate(editingPreset)}
+          onRenderThumbnail={() => handleRenderThumbnail(editingPreset)}
+          onExport={() => handleExport(editingPreset)}
+          onDelete={() => handleDelete(editingPreset)}
+          onClose={() => setEditingId(null)}
+        />
+      )}
       {presets.length === 0 ? (
         <p className="text-[11px] uppercase tracking-[0.2em] opacity-60">No presets saved yet.</p>
+      ) : visiblePresets.length === 0 ? (
+        <p className="text-[11px] uppercase tracking-[0.2em] opacity-60">No presets match.</p>
       ) : (
-        <ul className="flex max-h-[200px] flex-col gap-1 overflow-y-auto text-xs normal-case">
-          {presets.map((preset) => (
-            <li key={preset.id} className="flex items-center gap-2 border border-ink px-3 py-2">
-              <button
-                type="button"
-                onClick={() => handleApply(preset)}
-                className="flex-1 min-w-0 text-left uppercase tracking-[0.18em] hover:underline truncate"
-                title={preset.name}
-              >
-                {preset.name}
-              </button>
-              <span className="text-[10px] uppercase tracking-[0.2em] opacity-70 flex-shrink-0 w-[50px] text-right">
-                {new Date(preset.savedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
-              </span>
-              <button
-                type="button"
-                onClick={() => handleDelete(preset)}
-                className="border border-ink px-3 py-1 text-[10px] uppercase hover:bg-alert hover:text-paper flex-shrink-0"
+        <ul className="grid max-h-[320px] grid-cols-3 gap-2 overflow-y-auto text-xs normal-case">
+          {visiblePresets.map((preset) => {
+            const effectName = getEffect(preset.data.effectId).name;
+            return (
+              <li
+                key={preset.id}
+                className="flex min-w-0 flex-col gap-1"
+                onMouseEnter={() => setHoveredId(preset.id)}
+                onMouseLeave={() => setHoveredId((current) => (current === preset.id ? null : current))}
               >
-                Delete
-              </button>
-            </li>
-          ))}
+                <button
+                  type="button"
+                  onClick={() => handleApply(preset)}
+                  onFocus={() => setHoveredId(preset.id)}
+                  onBlur={() => setHoveredId((current) => (current === preset.id ? null : current))}
+                  className="block w-full hover:opacity-80"
+                  title={[
+                    preset.name,
+                    effectName,
+                    preset.folder,
+                    preset.tags.map((tag) => `#${tag}`).join(" "),
+                    new Date(preset.savedAt).toLocaleString(),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                >
+                  <PresetThumbnail
+                    presetId={preset.id}
+                    version={preset.savedAt + (thumbnailVersions[preset.id] ?? 0)}
+                    fallbackLabel={effectName}
+                    animate={hoveredId === preset.id || busyId === preset.id}
+                  />
+                </button>
+                <div className="flex min-w-0 items-center gap-1">
+                  <span className="min-w-0 flex-1 truncate text-[10px] uppercase tracking-[0.12em]" title={preset.name}>
+                    {preset.name}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId((current) => (current === preset.id ? null : preset.id))}
+                    aria-pressed={editingId === preset.id}
+                    title="Rename, tag, file, overwrite or duplicate"
+                    className={clsx(
+                      "flex-shrink-0 border border-ink px-1 text-[9px] uppercase",
+                      editingId === preset.id ? "bg-ink text-paper" : "hover:bg-ink hover:text-paper",
+                    )}
+                  >
+                    Edit
+                  </button>
+                </div>
+              </li>
+            );
+          })}
         </ul>
       )}
+      {presets.length > 1 && <PresetMorph presets={presets} />}
+      {usage && usage.quotaBytes > 0 && (
+        <p
+          className="mt-2 text-[10px] tracking-[0.2em] opacity-60"
+          title="Estimated by the browser for this site, including thumbnails"
+        >
+          Storage {formatBytes(usage.usageBytes)} / {formatBytes(usage.quotaBytes)}
+          {usage.usageBytes / usage.quotaBytes > 0.8 && <span className="text-alert"> · Nearly full</span>}
+        </p>
+      )}
     </div>
   );
 }
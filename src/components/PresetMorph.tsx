@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+
+import { getEffect } from "@/effects";
+import { easingOptions, type EasingType } from "@/lib/easing";
+import { getFrameCount } from "@/lib/loop";
+import { createMorphTracks, getPresetLayer } from "@/lib/presetMorph";
+import type { PresetRecord } from "@/lib/storage";
+import { useEditorStore } from "@/store/useEditor";
+import { useNotificationStore } from "@/store/useNotifications";
+
+const fieldClass = "min-w-0 border border-ink bg-paper px-2 py-1 text-xs tracking-normal normal-case";
+
+/**
+ * Turns two presets of the same effect into one animated layer: the active
+ * layer takes preset A's params plus keyframes that carry them to B's across the loop.
+ */
+export function PresetMorph({ presets }: { presets: PresetRecord[] }) {
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [easing, setEasing] = useState<EasingType>("easeInOut");
+  const [midpoint, setMidpoint] = useState(50);
+  const addNotification = useNotificationStore((state) => state.addNotification);
+
+  const from = presets.find((preset) => preset.id === fromId) ?? null;
+  const targets = from
+    ? presets.filter((preset) => preset.id !== from.id && preset.data.effectId === from.data.effectId)
+    : [];
+  const to = targets.find((preset) => preset.id === toId) ?? null;
+
+  const handleMorph = () => {
+    if (!from || !to) return;
+    const fromLayer = getPresetLayer(from);
+    const toLayer = getPresetLayer(to);
+    if (fromLayer.effectId !== toLayer.effectId) {
+      addNotification(`"${from.name}" and "${to.name}" use different effects`, "error");
+      return;
+    }
+    const { fps, durationSec, activeLayerId, updateLayer, seekTo } = useEditorStore.getState();
+    const frameCount = getFrameCount(fps, durationSec);
+    const keyframes = createMorphTracks(fromLayer, toLayer, { frameCount, easing, midpoint: midpoint / 100 });
+    updateLayer(activeLayerId, { effectId: fromLayer.effectId, params: fromLayer.params, keyframes });
+    seekTo(0);
+    addNotification(
+      keyframes
+        ? `Morphing "${from.name}" → "${to.name}" over ${frameCount} frames`
+        : `"${from.name}" and "${to.name}" have the same params`,
+      keyframes ? "success" : "info",
+    );
+  };
+
+  return (
+    <div className="mt-3 flex flex-col gap-2 border border-ink p-2 text-[10px]">
+      <span className="font-semibold tracking-[0.2em]">Morph A → B</span>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex min-w-0 flex-col gap-1 tracking-[0.2em]">
+          From
+          <select
+            value={fromId}
+            onChange={(event) => {
+              setFromId(event.target.value);
+              setToId("");
+            }}
+            className={fieldClass}
+          >
+            <option value="">Choose…</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name} · {getEffect(preset.data.effectId).name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex min-w-0 flex-col gap-1 tracking-[0.2em]">
+          To
+          <select
+            value={toId}
+            onChange={(event) => setToId(event.target.value)}
+            disabled={targets.length === 0}
+            title={from && targets.length === 0 ? "No other presets use this effect" : undefined}
+            className={`${fieldClass} disabled:opacity-40`}
+          >
+            <option value="">{from && targets.length === 0 ? "No match" : "Choose…"}</option>
+            {targets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex min-w-0 flex-col gap-1 tracking-[0.2em]">
+          Easing
+          <select value={easing} onChange={(event) => setEasing(event.target.value as EasingType)} className={fieldClass}>
+            {easingOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label
+          className="flex min-w-0 flex-col gap-1 tracking-[0.2em]"
+          title="Where in the loop on/off and choice params switch to B"
+        >
+          Switch at {midpoint}%
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={midpoint}
+            onChange={(event) => setMidpoint(Number(event.target.value))}
+            className="accent-ink"
+          />
+        </label>
+      </div>
+      <button
+        type="button"
+        disabled={!from || !to}
+        onClick={handleMorph}
+        title="Replace the active layer with A, keyframed to B across the loop"
+        className="border border-ink px-2 py-1 uppercase hover:bg-ink hover:text-paper disabled:opacity-40 disabled:hover:bg-paper disabled:hover:text-ink"
+      >
+        Morph
+      </button>
+    </div>
+  );
+}
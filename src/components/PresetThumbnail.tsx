@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { getPresetThumbnail } from "@/lib/storage";
+
+const FRAME_INTERVAL_MS = 140;
+
+type PresetThumbnailProps = {
+  presetId: string;
+  /** Changes whenever the stored thumbnail may have changed (e.g. `savedAt`). */
+  version: number;
+  /** Shown when the preset has no thumbnail yet. */
+  fallbackLabel: string;
+  animate: boolean;
+};
+
+/** Frame 0 of a preset's thumbnail strip; steps through the strip while `animate` is set. */
+export function PresetThumbnail({ presetId, version, fallbackLabel, animate }: PresetThumbnailProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [cells, setCells] = useState(1);
+  const [cell, setCell] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    void getPresetThumbnail(presetId).then((blob) => {
+      if (cancelled || !blob) return;
+      objectUrl = URL.createObjectURL(blob);
+      setUrl(objectUrl);
+    });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [presetId, version]);
+
+  useEffect(() => {
+    if (!animate || cells < 2) {
+      setCell(0);
+      return;
+    }
+    const timer = window.setInterval(() => setCell((current) => (current + 1) % cells), FRAME_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [animate, cells]);
+
+  if (!url) {
+    return (
+      <div className="flex aspect-square w-full items-center justify-center border border-dashed border-ink p-1 text-center text-[9px] uppercase tracking-[0.12em] opacity-60">
+        {fallbackLabel}
+      </div>
+    );
+  }
+
+  return (
+    <div className="aspect-square w-full overflow-hidden border border-ink">
+      <img
+        src={url}
+        alt=""
+        draggable={false}
+        onLoad={(event) => {
+          const image = event.currentTarget;
+          setCells(Math.max(1, Math.round(image.naturalWidth / Math.max(1, image.naturalHeight))));
+        }}
+        className="h-full max-w-none [image-rendering:pixelated]"
+        style={{ width: `${cells * 100}%`, transform: `translateX(-${(cell / cells) * 100}%)` }}
+      />
+    </div>
+  );
+}
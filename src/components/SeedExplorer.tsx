@@ -0,0 +1,287 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import clsx from "clsx";
+
+import { createExportSketch, type ExportConfig, type ExportSketch } from "@/components/CanvasHost";
+import { getEffect } from "@/effects";
+import { createCanvasError, errorManager } from "@/lib/errorHandling";
+import { createExportConfig } from "@/lib/exportFrames";
+import { getFrameCount } from "@/lib/loop";
+import { generateSeed } from "@/lib/rng";
+import { useEditorStore, type EditorSnapshot } from "@/store/useEditor";
+import { useSeedFavorites } from "@/store/useSeedFavorites";
+
+/**
+ * Longest edge of a preview's buffers, in pixels. Effects still lay out at the
+ * editor's size and are scaled down while drawing, so a tile matches the canvas.
+ */
+const PREVIEW_SIZE = 128;
+/** Previews step one frame per tick, so high-fps loops play slower here rather than skip frames. */
+const PREVIEW_MAX_FPS = 12;
+/** Edits settle for this long before the grid rebuilds, so dragging a slider stays smooth. */
+const REBUILD_DELAY_MS = 300;
+
+type GridSize = 3 | 4;
+
+const generateSeeds = (count: number) => Array.from({ length: count }, () => generateSeed());
+
+function SeedPreview({
+  config,
+  frame,
+  active,
+  pinned,
+  onAdopt,
+  onTogglePin,
+}: {
+  config: ExportConfig;
+  frame: number;
+  active: boolean;
+  pinned: boolean;
+  onAdopt: () => void;
+  onTogglePin: () => void;
+}) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const sketchRef = useRef<ExportSketch | null>(null);
+  const lastFrameRef = useRef(-1);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let cancelled = false;
+    createExportSketch(config, container)
+      .then((sketch) => {
+        if (cancelled) {
+          sketch.dispose();
+          return;
+        }
+        sketchRef.current = sketch;
+        lastFrameRef.current = -1;
+      })
+      .catch((error) => {
+        errorManager.handleError(createCanvasError("seed-preview", error as Error, { seed: config.seed }));
+      });
+    return () => {
+      cancelled = true;
+      sketchRef.current?.dispose();
+      sketchRef.current = null;
+    };
+  }, [config]);
+
+  useEffect(() => {
+    const sketch = sketchRef.current;
+    if (!sketch) return;
+    // Previews that missed ticks (or wrapped) replay from the nearest state instead of skipping steps.
+    if (frame !== lastFrameRef.current + 1) {
+      sketch.seek(frame);
+    }
+    sketch.renderFrame(frame);
+    lastFrameRef.current = frame;
+  }, [frame]);
+
+  return (
+    <div className={clsx("relative border", active ? "border-ink shadow-[inset_0_0_0_1px_#000]" : "border-line")}>
+      <button
+        type="button"
+        onClick={onAdopt}
+        title={`Use seed ${config.seed}`}
+        className="block w-full hover:opacity-80"
+      >
+        <div
+          ref={containerRef}
+          className="flex aspect-square w-full items-center justify-center bg-paper [&_canvas]:!h-full [&_canvas]:!w-full [&_canvas]:object-contain [image-rendering:pixelated]"
+        />
+      </button>
+      <div className="flex items-center justify-between gap-1 border-t border-line px-1 py-0.5 text-[9px] tracking-[0.12em]">
+        <span className="truncate">{config.seed}</span>
+        <button
+          type="button"
+          onClick={onTogglePin}
+          aria-pressed={pinned}
+          title={pinned ? "Unpin seed" : "Pin seed"}
+          className="flex-shrink-0 px-1 hover:bg-ink hover:text-paper"
+        >
+          {pinned ? "★" : "☆"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function SeedExplorer() {
+  const [open, setOpen] = useState(false);
+  const [gridSize, setGridSize] = useState<GridSize>(3);
+  const [seeds, setSeeds] = useState<string[]>([]);
+  const [frame, setFrame] = useState(0);
+  const [source, setSource] = useState<EditorSnapshot | null>(null);
+
+  const layers = useEditorStore((state) => state.layers);
+  const activeLayerId = useEditorStore((state) => state.activeLayerId);
+  const width = useEditorStore((state) => state.width);
+  const height = useEditorStore((state) => state.height);
+  const fps = useEditorStore((state) => state.fps);
+  const durationSec = useEditorStore((state) => state.durationSec);
+  const background = useEditorStore((state) => state.background);
+  const invert = useEditorStore((state) => state.invert);
+  const loopMode = useEditorStore((state) => state.loopMode);
+  const currentSeed = useEditorStore((state) => state.seed);
+  const effectId = useEditorStore((state) => state.effectId);
+  const setSeed = useEditorStore((state) => state.setSeed);
+  const pinnedSeeds = useSeedFavorites((state) => state.pinned);
+  const pin = useSeedFavorites((state) => state.pin);
+  const unpin = useSeedFavorites((state) => state.unpin);
+
+  useEffect(() => {
+    void useSeedFavorites.persist.rehydrate();
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setSeeds((current) =>
+      current.length >= gridSize * gridSize
+        ? current.slice(0, gridSize * gridSize)
+        : [...current, ...generateSeeds(gridSize * gridSize - current.length)],
+    );
+  }, [open, gridSize]);
+
+  useEffect(() => {
+    if (!open) return;
+    const timer = window.setTimeout(() => {
+      setSource({
+        layers,
+        activeLayerId,
+        width,
+        height,
+        fps,
+        durationSec,
+        seed: "",
+        background,
+        invert,
+        loopMode,
+      });
+      setFrame(0);
+    }, REBUILD_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [open, layers, activeLayerId, width, height, fps, durationSec, background, invert, loopMode]);
+
+  const configs = useMemo(() => {
+    if (!source) return [];
+    const renderScale = Math.min(1, PREVIEW_SIZE / Math.max(source.width, source.height));
+    return seeds.map((seed) => ({ ...createExportConfig({ ...source, seed }), renderScale }));
+  }, [source, seeds]);
+
+  useEffect(() => {
+    if (!open || !source) return;
+    const totalFrames = getFrameCount(source.fps, source.durationSec);
+    const interval = 1000 / Math.min(PREVIEW_MAX_FPS, Math.max(1, source.fps));
+    const timer = window.setInterval(() => setFrame((current) => (current + 1) % totalFrames), interval);
+    return () => window.clearInterval(timer);
+  }, [open, source]);
+
+  const handleShuffle = () => {
+    setSeeds(generateSeeds(gridSize * gridSize));
+    setFrame(0);
+  };
+
+  const togglePin = (seed: string) => {
+    if (pinnedSeeds.some((entry) => entry.seed === seed)) {
+      unpin(seed);
+    } else {
+      pin(seed, effectId);
+    }
+  };
+
+  return (
+    <section className="flex flex-col border border-ink bg-paper text-xs uppercase tracking-[0.12em]">
+      <div className="flex items-center justify-between gap-2 border-b border-ink px-4 py-2">
+        <h2 className="text-sm font-semibold normal-case">Seed Variations</h2>
+        <div className="flex items-center gap-2 text-[10px]">
+          {open && (
+            <>
+              {([3, 4] as const).map((size) => (
+                <button
+                  key={size}
+                  type="button"
+                  onClick={() => setGridSize(size)}
+                  aria-pressed={gridSize === size}
+                  className={clsx(
+                    "border border-ink px-2 py-1",
+                    gridSize === size ? "bg-ink text-paper" : "hover:bg-ink hover:text-paper",
+                  )}
+                >
+                  {size}×{size}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={handleShuffle}
+                className="border border-ink px-2 py-1 hover:bg-ink hover:text-paper"
+              >
+                Shuffle
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => setOpen((value) => !value)}
+            aria-expanded={open}
+            className="border border-ink px-2 py-1 hover:bg-ink hover:text-paper"
+          >
+            {open ? "Hide" : "Show"}
+          </button>
+        </div>
+      </div>
+      {open && (
+        <div
+          className="grid gap-2 p-3"
+          style={{ gridTemplateColumns: `repeat(${gridSize}, minmax(0, 1fr))` }}
+        >
+          {configs.map((config) => (
+            <SeedPreview
+              key={config.seed}
+              config={config}
+              frame={frame}
+              active={config.seed === currentSeed}
+              pinned={pinnedSeeds.some((entry) => entry.seed === config.seed)}
+              onAdopt={() => setSeed(config.seed)}
+              onTogglePin={() => togglePin(config.seed)}
+            />
+          ))}
+        </div>
+      )}
+      {pinnedSeeds.length > 0 && (
+        <div className="flex flex-col gap-1 border-t border-ink px-4 py-2">
+          <span className="text-[10px] tracking-[0.2em] opacity-70">Pinned</span>
+          <ul className="flex flex-wrap gap-1 text-[10px]">
+            {pinnedSeeds.map((entry) => (
+              <li
+                key={entry.seed}
+                className={clsx(
+                  "flex items-center border",
+                  entry.seed === currentSeed ? "border-ink bg-ink text-paper" : "border-ink",
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => setSeed(entry.seed)}
+                  title={`Use seed ${entry.seed} (pinned from ${getEffect(entry.effectId).name})`}
+                  className="px-2 py-1 hover:underline"
+                >
+                  {entry.seed}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => unpin(entry.seed)}
+                  aria-label={`Unpin ${entry.seed}`}
+                  className="border-l border-current px-1 py-1 hover:bg-alert hover:text-paper"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -3,6 +3,12 @@
 import { getEffect } from "@/effects";
 import { useEffect, useState } from "react";
 
+import { isLayerVisible } from "@/lib/compositor";
+import { createAnimationError, errorManager } from "@/lib/errorHandling";
+import { getExportConfig } from "@/lib/exportFrames";
+import { getFrameCount, type LoopSeamReport } from "@/lib/loop";
+import { measureLoopSeam } from "@/lib/loopDiagnostics";
+import { getQualityDescription } from "@/lib/qualityManager";
 import { useEditorStore } from "@/store/useEditor";
 import { useNotificationStore } from "@/store/useNotifications";
 
@@ -15,6 +21,11 @@ function formatTime(totalSeconds: number) {
   return `${pad(minutes)}:${pad(remaining)}`;
 }
 
+function formatSeam(report: LoopSeamReport) {
+  if (report.changedRatio === 0) return "Seamless";
+  return `${(report.changedRatio * 100).toFixed(1)}% px · Δ${(report.meanDifference * 100).toFixed(1)}%`;
+}
+
 export function StatusBar() {
   const frame = useEditorStore((state) => state.currentFrame);
   const fps = useEditorStore((state) => state.fps);
@@ -24,19 +35,48 @@ export function StatusBar() {
   const effectId = useEditorStore((state) => state.effectId);
   const width = useEditorStore((state) => state.width);
   const height = useEditorStore((state) => state.height);
+  const layers = useEditorStore((state) => state.layers);
+  const loopMode = useEditorStore((state) => state.loopMode);
+  const background = useEditorStore((state) => state.background);
+  const invert = useEditorStore((state) => state.invert);
+  const previewQuality = useEditorStore((state) => state.previewQuality);
   const toggleNotificationPanel = useNotificationStore(
     (state) => state.togglePanel
   );
   const [mounted, setMounted] = useState(false);
+  const [seam, setSeam] = useState<LoopSeamReport | null>(null);
+  const [checkingSeam, setCheckingSeam] = useState(false);
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  const totalFrames = Math.max(1, Math.round(durationSec * Math.max(1, fps)));
+  // Any change to what renders makes the last measurement stale.
+  useEffect(() => {
+    setSeam(null);
+  }, [layers, seed, fps, durationSec, width, height, loopMode, background, invert]);
+
+  const handleCheckSeam = async () => {
+    if (checkingSeam) return;
+    setCheckingSeam(true);
+    try {
+      setSeam(await measureLoopSeam(getExportConfig()));
+    } catch (error) {
+      await errorManager.handleError(
+        createAnimationError("loop-diagnostic", error as Error, { effectId, fps, durationSec }),
+      );
+    } finally {
+      setCheckingSeam(false);
+    }
+  };
+
+  const totalFrames = getFrameCount(fps, durationSec);
   const currentTime = frame / Math.max(1, fps);
   const effect = getEffect(effectId);
   const resolutionText = `${width}×${height}`;
+  const unsafeLayers = layers.filter(
+    (layer) => isLayerVisible(layer, layers) && !getEffect(layer.effectId).loopSafe,
+  ).length;
 
   return (
     <footer className="flex flex-wrap items-center justify-between gap-2 border border-ink bg-paper px-4 py-2 text-xs uppercase tracking-[0.18em]">
@@ -45,7 +85,31 @@ export function StatusBar() {
         {formatTime(durationSec)} ({totalFrames} frames @ {fps}fps)
       </span>
       <span>{resolutionText}</span>
+      {previewQuality && (
+        <span
+          title={`Preview only; exports always render at full quality${previewQuality.autoScale ? ". Resolution adapts to render speed." : ""}`}
+        >
+          Preview · {getQualityDescription(previewQuality, fps)}
+        </span>
+      )}
       <span>Effect · {effect.name}</span>
+      <span className="flex items-center gap-2">
+        Loop · {loopMode ? "Seamless" : "Free"}
+        {loopMode && unsafeLayers > 0 && (
+          <span className="text-alert" title="These effects don't close their motion in loop mode">
+            ({unsafeLayers} not loop-safe)
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={handleCheckSeam}
+          disabled={checkingSeam}
+          title="Compare frame 0 with the frame after the last one"
+          className="border border-ink px-2 py-1 text-[10px] uppercase hover:bg-ink hover:text-paper disabled:opacity-50"
+        >
+          {checkingSeam ? "Checking…" : seam ? `Seam · ${formatSeam(seam)}` : "Check Seam"}
+        </button>
+      </span>
       <span>
         Seed · <span suppressHydrationWarning>{mounted ? seed : "--"}</span> ·{" "}
         {playing ? "Playing" : "Paused"}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useRef } from "react";
+import clsx from "clsx";
+
+import { getFrameCount } from "@/lib/loop";
+import { getLoopRange, useEditorStore } from "@/store/useEditor";
+
+const padFrame = (frame: number) => frame.toString().padStart(3, "0");
+
+function TransportButton({
+  label,
+  title,
+  onClick,
+  active = false,
+}: {
+  label: string;
+  title: string;
+  onClick: () => void;
+  active?: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={title}
+      aria-label={title}
+      className={clsx(
+        "border border-ink px-2 py-1",
+        active ? "bg-ink text-paper" : "bg-paper hover:bg-ink hover:text-paper",
+      )}
+    >
+      {label}
+    </button>
+  );
+}
+
+export function Timeline() {
+  const frame = useEditorStore((state) => state.currentFrame);
+  const fps = useEditorStore((state) => state.fps);
+  const durationSec = useEditorStore((state) => state.durationSec);
+  const playing = useEditorStore((state) => state.playing);
+  const loopIn = useEditorStore((state) => state.loopIn);
+  const loopOut = useEditorStore((state) => state.loopOut);
+  const keyframes = useEditorStore(
+    (state) => state.layers.find((layer) => layer.id === state.activeLayerId)?.keyframes,
+  );
+  const togglePlaying = useEditorStore((state) => state.togglePlaying);
+  const seekTo = useEditorStore((state) => state.seekTo);
+  const stepFrame = useEditorStore((state) => state.stepFrame);
+  const setLoopIn = useEditorStore((state) => state.setLoopIn);
+  const setLoopOut = useEditorStore((state) => state.setLoopOut);
+  const trackRef = useRef<HTMLDivElement | null>(null);
+
+  const totalFrames = getFrameCount(fps, durationSec);
+  const lastFrame = totalFrames - 1;
+  const { start, end } = getLoopRange(loopIn, loopOut, totalFrames);
+  const hasLoopRange = loopIn !== null || loopOut !== null;
+  const toPercent = (value: number) => (lastFrame > 0 ? (value / lastFrame) * 100 : 0);
+  const keyedFrames = Array.from(
+    new Set(Object.values(keyframes ?? {}).flatMap((track) => track.map((keyframe) => keyframe.frame))),
+  ).filter((keyedFrame) => keyedFrame <= lastFrame);
+
+  const frameFromPointer = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return Math.round(ratio * lastFrame);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const target = event.currentTarget;
+    const pointerId = event.pointerId;
+    target.setPointerCapture(pointerId);
+    target.focus();
+    seekTo(frameFromPointer(event.clientX));
+
+    let lastSeek = useEditorStore.getState().currentFrame;
+    const handlePointerMove = (moveEvent: PointerEvent) => {
+      const next = frameFromPointer(moveEvent.clientX);
+      if (next !== lastSeek) {
+        lastSeek = next;
+        seekTo(next);
+      }
+    };
+
+    const handlePointerUp = () => {
+      target.releasePointerCapture(pointerId);
+      target.removeEventListener("pointermove", handlePointerMove);
+      target.removeEventListener("pointerup", handlePointerUp);
+      target.removeEventListener("pointercancel", handlePointerUp);
+    };
+
+    target.addEventListener("pointermove", handlePointerMove);
+    target.addEventListener("pointerup", handlePointerUp);
+    target.addEventListener("pointercancel", handlePointerUp);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? 10 : 1;
+    if (event.key === "ArrowLeft") {
+      event.preventDefault();
+      stepFrame(-step);
+    } else if (event.key === "ArrowRight") {
+      event.preventDefault();
+      stepFrame(step);
+    } else if (event.key === "Home") {
+      event.preventDefault();
+      seekTo(start);
+    } else if (event.key === "End") {
+      event.preventDefault();
+      seekTo(end);
+    }
+  };
+
+  return (
+    <section className="flex flex-col gap-3 border border-ink bg-paper px-4 py-3 text-xs uppercase tracking-[0.12em]">
+      <div className="flex flex-wrap items-center gap-2">
+        <TransportButton label="|◀" title="Go to loop start" onClick={() => seekTo(start)} />
+        <TransportButton label="◀" title="Previous frame" onClick={() => stepFrame(-1)} />
+        <TransportButton label={playing ? "Pause" : "Play"} title={playing ? "Pause" : "Play"} onClick={togglePlaying} />
+        <TransportButton label="▶" title="Next frame" onClick={() => stepFrame(1)} />
+        <TransportButton label="▶|" title="Go to loop end" onClick={() => seekTo(end)} />
+        <span className="ml-2 tabular-nums">
+          Frame {padFrame(frame)} / {padFrame(lastFrame)}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <TransportButton
+            label={loopIn === null ? "Set In" : `In ${padFrame(start)}`}
+            title="Set loop in at the current frame"
+            active={loopIn !== null}
+            onClick={() => setLoopIn(frame)}
+          />
+          <TransportButton
+            label={loopOut === null ? "Set Out" : `Out ${padFrame(end)}`}
+            title="Set loop out at the current frame"
+            active={loopOut !== null}
+            onClick={() => setLoopOut(frame)}
+          />
+          {hasLoopRange && (
+            <TransportButton
+              label="Clear"
+              title="Play the whole loop"
+              onClick={() => {
+                setLoopIn(null);
+                setLoopOut(null);
+              }}
+            />
+          )}
+        </div>
+      </div>
+      <div
+        ref={trackRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="Timeline"
+        aria-valuemin={0}
+        aria-valuemax={lastFrame}
+        aria-valuenow={frame}
+        onPointerDown={handlePointerDown}
+        onKeyDown={handleKeyDown}
+        className="relative h-8 cursor-ew-resize touch-none select-none border border-ink focus:outline-none focus-visible:shadow-[inset_0_0_0_1px_#000]"
+      >
+        {hasLoopRange && (
+          <div
+            className="absolute inset-y-0 bg-line"
+            style={{ left: `${toPercent(start)}%`, width: `${toPercent(end) - toPercent(start)}%` }}
+          />
+        )}
+        {keyedFrames.map((keyedFrame) => (
+          <span
+            key={keyedFrame}
+            className="absolute bottom-0 h-2 w-2 -translate-x-1/2 translate-y-1/2 rotate-45 bg-ink"
+            style={{ left: `${toPercent(keyedFrame)}%` }}
+            aria-hidden
+          />
+        ))}
+        <div
+          className="absolute inset-y-0 w-0.5 -translate-x-1/2 bg-ink"
+          style={{ left: `${toPercent(Math.min(frame, lastFrame))}%` }}
+          aria-hidden
+        />
+      </div>
+    </section>
+  );
+}
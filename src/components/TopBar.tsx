@@ -2,9 +2,10 @@
 
 import { useState } from "react";
 
+import { ExportControls } from "@/components/ExportControls";
 import { NumericField } from "@/components/NumericField";
 import { effects } from "@/effects";
-import { createShareUrl } from "@/lib/shareUrls";
+import { createPlayerUrl, createShareUrl } from "@/lib/shareUrls";
 import { useNotificationStore } from "@/store/useNotifications";
 import { useEditorStore } from "@/store/useEditor";
 
@@ -35,28 +36,39 @@ export function TopBar() {
   const setBackground = useEditorStore((state) => state.setBackground);
   const invert = useEditorStore((state) => state.invert);
   const toggleInvert = useEditorStore((state) => state.toggleInvert);
+  const loopMode = useEditorStore((state) => state.loopMode);
+  const toggleLoopMode = useEditorStore((state) => state.toggleLoopMode);
   const addNotification = useNotificationStore((state) => state.addNotification);
-  const [shareBusy, setShareBusy] = useState(false);
+  const [shareBusy, setShareBusy] = useState<"link" | "embed" | null>(null);
 
 
-  const handleShare = async () => {
+  const copyText = async (kind: "link" | "embed", createText: () => Promise<string>) => {
+    const label = kind === "link" ? "share link" : "embed code";
     try {
-      setShareBusy(true);
-      const url = createShareUrl();
+      setShareBusy(kind);
+      const text = await createText();
       if (navigator?.clipboard?.writeText) {
-        await navigator.clipboard.writeText(url);
-        addNotification("Share link copied", "success");
+        await navigator.clipboard.writeText(text);
+        addNotification(`${label[0].toUpperCase()}${label.slice(1)} copied`, "success");
       } else {
-        addNotification(url, "info");
+        addNotification(text, "info");
       }
     } catch (error) {
       console.error(error);
-      addNotification("Unable to copy share link", "error");
+      addNotification(`Unable to copy ${label}`, "error");
     } finally {
-      setShareBusy(false);
+      setShareBusy(null);
     }
   };
 
+  const handleShare = () => copyText("link", createShareUrl);
+
+  const handleEmbed = () =>
+    copyText("embed", async () => {
+      const url = await createPlayerUrl();
+      return `<iframe src="${url}" width="${width}" height="${height}" style="border:0" loading="lazy" title="Pixel Animator"></iframe>`;
+    });
+
   return (
     <header className="flex flex-col gap-3 border border-ink bg-paper px-4 py-3 uppercase tracking-[0.08em] shadow-[inset_0_0_0_1px_#000]">
       <div className="flex flex-wrap items-center justify-between gap-3">
@@ -79,13 +91,25 @@ export function TopBar() {
           <button
             type="button"
             onClick={handleShare}
-            disabled={shareBusy}
+            disabled={shareBusy !== null}
+            className={`border border-ink bg-paper px-3 py-2 ${
+              shareBusy ? "opacity-60" : "hover:bg-ink hover:text-paper"
+            }`}
+          >
+            {shareBusy === "link" ? "Copying..." : "Share"}
+          </button>
+          <button
+            type="button"
+            onClick={handleEmbed}
+            disabled={shareBusy !== null}
+            title="Copy an iframe of the read-only player"
             className={`border border-ink bg-paper px-3 py-2 ${
               shareBusy ? "opacity-60" : "hover:bg-ink hover:text-paper"
             }`}
           >
-            {shareBusy ? "Copying..." : "Share"}
+            {shareBusy === "embed" ? "Copying..." : "Embed"}
           </button>
+          <ExportControls />
         </div>
       </div>
 
@@ -198,6 +222,18 @@ export function TopBar() {
           </button>
         </div>
 
+        <div className="flex flex-col gap-1">
+          <SectionLabel label="Seamless Loop" />
+          <button
+            type="button"
+            onClick={toggleLoopMode}
+            title="Snap loop-safe effects to whole cycles so the last frame flows into the first"
+            className={`border border-ink px-3 py-2 ${loopMode ? "bg-ink text-paper" : "bg-paper"}`}
+          >
+            {loopMode ? "On" : "Off"}
+          </button>
+        </div>
+
 
 
       </div>
@@ -1,4 +1,3 @@
-import type p5 from "p5";
 import type { Effect } from "./types";
 
 const defaults = {
@@ -53,7 +52,7 @@ export const asciiDither: Effect = {
     },
   ],
   defaults,
-  init(p, ctx, params) {
+  init(g, ctx, params) {
     const cell = clamp(Number(params.cell ?? defaults.cell), 6, 32);
     const charset = normalizeCharset(String(params.charset ?? defaults.charset));
     const state: AsciiState = {
@@ -61,23 +60,21 @@ export const asciiDither: Effect = {
       cell,
       prepared: true,
     };
-    p.pixelDensity(1);
-    p.noStroke();
-    p.textFont("monospace");
-    p.textAlign(p.CENTER, p.CENTER);
-    p.noSmooth();
-    p.noiseSeed(ctx.seedHash);
+    g.noStroke();
+    g.textFont("monospace");
+    g.textAlign("center", "center");
+    g.noiseSeed(ctx.seedHash);
     ctx.data = state;
   },
   update() {
     // No-op; all work done in render.
   },
-  render(p, ctx, t, _frame, params) {
+  render(g, ctx, t, _frame, params) {
     const state = ctx.data as AsciiState | undefined;
     if (!state || !state.prepared) return;
 
-    const width = p.width;
-    const height = p.height;
+    const width = g.width;
+    const height = g.height;
     const cell = clamp(Number(params.cell ?? defaults.cell), 6, 32);
     const cols = Math.max(1, Math.floor(width / cell));
     const rows = Math.max(1, Math.floor(height / cell));
@@ -101,9 +98,9 @@ export const asciiDither: Effect = {
     const noiseScale = 0.02;
     const jitterScale = (cell / 2) * jitter;
 
-    p.background(ctx.colors.paper);
-    p.fill(ctx.colors.ink);
-    p.textSize(cell * 0.88);
+    g.background(ctx.colors.paper);
+    g.fill(ctx.colors.ink);
+    g.textSize(cell * 0.88);
 
     const len = charset.length - 1;
     const scroll = t * scrollSpeed * 0.5;
@@ -112,7 +109,7 @@ export const asciiDither: Effect = {
       for (let x = 0; x < cols; x += 1) {
         let value = 0;
         if (mode === "noise") {
-          value = p.noise(
+          value = g.noise(
             (x * cell + ctx.seedHash) * noiseScale,
             (y * cell + scroll) * noiseScale,
             scroll * 0.5,
@@ -133,8 +130,20 @@ export const asciiDither: Effect = {
         const jitterY = (ctx.rng() - 0.5) * 2 * jitterScale;
         const posX = offsetX + x * cell + jitterX;
         const posY = offsetY + y * cell + jitterY;
-        p.text(char, posX, posY);
+        g.text(char, posX, posY);
       }
     }
   },
+  serialize(_g, ctx) {
+    const state = ctx.data as AsciiState | undefined;
+    if (!state) return null;
+    const snapshot: AsciiState = { ...state, chars: state.chars.slice() };
+    return snapshot;
+  },
+  deserialize(_g, ctx, snapshot) {
+    const saved = snapshot as AsciiState | null;
+    if (!saved) return;
+    const state: AsciiState = { ...saved, chars: saved.chars.slice() };
+    ctx.data = state;
+  },
 };
@@ -1,5 +1,4 @@
-import type p5 from "p5";
-import type { Effect } from "./types";
+import type { Effect, EffectContext, Surface, SurfaceBuffer } from "./types";
 
 const defaults = {
   rule: 30,
@@ -14,12 +13,46 @@ type CellularState = {
   next: Uint8Array;
   currentRow: number;
   lineHeight: number;
-  image: p5.Graphics;
+  image: SurfaceBuffer;
+  /** One bit per image pixel, set where a live cell has been drawn since the image was last cleared. */
+  coverage: Uint8Array;
 };
 
+// The image is redrawn from `coverage`, so snapshots never hold its pixels.
+type CellularSnapshot = Omit<CellularState, "image">;
+
 const clamp = (value: number, min: number, max: number) =>
   Math.max(min, Math.min(max, value));
 
+const createImage = (g: Surface, width: number, height: number, paper: number) => {
+  const image = g.createBuffer(width, height);
+  image.background(paper);
+  image.noStroke();
+  return image;
+};
+
+const getCoverageStride = (width: number) => Math.ceil(width / 8);
+
+const createCoverage = (width: number, height: number) => new Uint8Array(getCoverageStride(width) * height);
+
+/** Paints the image from its coverage bits in one pass, as drawing each covered cell would. */
+const drawCoverage = (image: SurfaceBuffer, coverage: Uint8Array, colors: EffectContext["colors"]) => {
+  const pixels = image.getPixels();
+  const stride = getCoverageStride(pixels.width);
+  for (let y = 0; y < pixels.height; y += 1) {
+    for (let x = 0; x < pixels.width; x += 1) {
+      const covered = coverage[y * stride + (x >> 3)] & (1 << (x & 7));
+      const value = covered ? colors.ink : colors.paper;
+      const index = (y * pixels.width + x) * 4;
+      pixels.data[index] = value;
+      pixels.data[index + 1] = value;
+      pixels.data[index + 2] = value;
+      pixels.data[index + 3] = 255;
+    }
+  }
+  image.putPixels(pixels);
+};
+
 export const cellular1D: Effect = {
   id: "cellular-1d",
   name: "Cellular Automata",
@@ -31,21 +64,17 @@ export const cellular1D: Effect = {
     { key: "lineHeight", type: "int", label: "Line Height", min: 1, max: 4, step: 1 },
   ],
   defaults,
-  init(p, ctx, params) {
+  init(g, ctx, params) {
     const lineHeight = clamp(Math.round(Number(params.lineHeight ?? defaults.lineHeight)), 1, 4);
-    const width = p.width;
-    const height = p.height;
+    const width = g.width;
+    const height = g.height;
 
     const previous = ctx.data as CellularState | undefined;
     if (previous?.image) {
       previous.image.remove();
     }
 
-    const image = p.createGraphics(width, height);
-    image.pixelDensity(1);
-    image.noSmooth();
-    image.background(ctx.colors.paper);
-    image.noStroke();
+    const image = createImage(g, width, height, ctx.colors.paper);
 
     const cols = width;
     const cells = new Uint8Array(cols);
@@ -60,17 +89,18 @@ export const cellular1D: Effect = {
       currentRow: 0,
       lineHeight,
       image,
+      coverage: createCoverage(width, height),
     };
 
     ctx.data = state;
   },
   update() {},
-  render(p, ctx, _t, _frame, params) {
+  render(g, ctx, _t, _frame, params) {
     const state = ctx.data as CellularState | undefined;
     if (!state) return;
 
-    const width = p.width;
-    const height = p.height;
+    const width = g.width;
+    const height = g.height;
     const cols = width;
 
     if (state.cells.length !== cols) {
@@ -95,22 +125,28 @@ export const cellular1D: Effect = {
     const totalRows = Math.max(1, Math.floor(height / state.lineHeight));
 
     const image = state.image;
+    const stride = getCoverageStride(width);
     image.fill(ctx.colors.ink);
 
     const ensureRow = () => {
       if (state.currentRow * state.lineHeight >= height) {
         state.currentRow = 0;
         image.background(ctx.colors.paper);
+        state.coverage.fill(0);
       }
     };
 
     for (let step = 0; step < stepsPerFrame; step += 1) {
       ensureRow();
       const y = state.currentRow * state.lineHeight;
+      const rowEnd = Math.min(height, y + state.lineHeight);
 
       for (let x = 0; x < cols; x += 1) {
         if (state.cells[x]) {
           image.rect(x, y, 1, state.lineHeight);
+          for (let row = y; row < rowEnd; row += 1) {
+            state.coverage[row * stride + (x >> 3)] |= 1 << (x & 7);
+          }
         }
       }
 
@@ -140,7 +176,41 @@ export const cellular1D: Effect = {
       state.currentRow = (state.currentRow + 1) % totalRows;
     }
 
-    p.background(ctx.colors.paper);
-    p.image(image, 0, 0);
+    g.background(ctx.colors.paper);
+    g.image(image, 0, 0);
+  },
+  serialize(_g, ctx) {
+    const state = ctx.data as CellularState | undefined;
+    if (!state) return null;
+    const snapshot: CellularSnapshot = {
+      cells: state.cells.slice(),
+      next: state.next.slice(),
+      currentRow: state.currentRow,
+      lineHeight: state.lineHeight,
+      coverage: state.coverage.slice(),
+    };
+    return snapshot;
+  },
+  deserialize(g, ctx, snapshot) {
+    const saved = snapshot as CellularSnapshot | null;
+    if (!saved) return;
+    const previous = ctx.data as CellularState | undefined;
+    // Reuse the existing buffer when it matches; the rows drawn so far are repainted from the coverage bits.
+    let image = previous?.image;
+    if (!image || image.width !== g.width || image.height !== g.height) {
+      image?.remove();
+      image = createImage(g, g.width, g.height, ctx.colors.paper);
+    }
+    drawCoverage(image, saved.coverage, ctx.colors);
+
+    const state: CellularState = {
+      cells: saved.cells.slice(),
+      next: saved.next.slice(),
+      currentRow: saved.currentRow,
+      lineHeight: saved.lineHeight,
+      image,
+      coverage: saved.coverage.slice(),
+    };
+    ctx.data = state;
   },
 };
@@ -1,5 +1,4 @@
-import type p5 from "p5";
-import type { Effect, EffectContext, ParamValues } from "./types";
+import type { Effect, EffectContext, ParamValues, Surface } from "./types";
 
 export const customDemo: Effect = {
   id: "custom-demo",
@@ -65,12 +64,12 @@ export const customDemo: Effect = {
     enableRotation: false,
   },
 
-  init(p: p5, ctx: EffectContext, params: ParamValues): void {
-    p.stroke(ctx.colors.ink);
-    p.fill(ctx.colors.ink);
+  init(g: Surface, ctx: EffectContext, params: ParamValues): void {
+    g.stroke(ctx.colors.ink);
+    g.fill(ctx.colors.ink);
   },
 
-  update(p: p5, ctx: EffectContext, t: number, frame: number, params: ParamValues): void {
+  update(g: Surface, ctx: EffectContext, t: number, frame: number, params: ParamValues): void {
     // Animation logic based on custom curve
     const curve = params.animationCurve as { x: number; y: number }[];
     const normalizedTime = (t % 10) / 10; // 10-second loop
@@ -92,7 +91,7 @@ export const customDemo: Effect = {
     ctx.data.animationValue = animationValue;
   },
 
-  render(p: p5, ctx: EffectContext, t: number, frame: number, params: ParamValues): void {
+  render(g: Surface, ctx: EffectContext, t: number, frame: number, params: ParamValues): void {
     const intensity = params.intensity as { min: number; max: number };
     const position = params.position as { x: number; y: number };
     const tintColor = parseInt(params.tintColor as string) || 128;
@@ -102,19 +101,19 @@ export const customDemo: Effect = {
 
     // Apply tint
     const tintedColor = Math.round(ctx.colors.ink * (tintColor / 255));
-    p.stroke(tintedColor);
-    p.fill(tintedColor);
+    g.stroke(tintedColor);
+    g.fill(tintedColor);
 
     // Center point with position offset
-    const centerX = p.width / 2 + position.x;
-    const centerY = p.height / 2 + position.y;
+    const centerX = g.width / 2 + position.x;
+    const centerY = g.height / 2 + position.y;
 
     // Rotation based on animation curve
     if (enableRotation) {
-      p.push();
-      p.translate(centerX, centerY);
-      p.rotate(animationValue * p.TWO_PI);
-      p.translate(-centerX, -centerY);
+      g.push();
+      g.translate(centerX, centerY);
+      g.rotate(animationValue * Math.PI * 2);
+      g.translate(-centerX, -centerY);
     }
 
     // Draw grid pattern with intensity-based variation
@@ -122,10 +121,10 @@ export const customDemo: Effect = {
     const maxIntensity = intensity.max / 100;
     const intensityRange = maxIntensity - minIntensity;
 
-    for (let x = 0; x < p.width; x += gridSize) {
-      for (let y = 0; y < p.height; y += gridSize) {
-        const distFromCenter = p.dist(x, y, centerX, centerY);
-        const normalizedDist = Math.min(1, distFromCenter / (p.width / 2));
+    for (let x = 0; x < g.width; x += gridSize) {
+      for (let y = 0; y < g.height; y += gridSize) {
+        const distFromCenter = Math.hypot(x - centerX, y - centerY);
+        const normalizedDist = Math.min(1, distFromCenter / (g.width / 2));
 
         // Apply intensity variation
         const localIntensity = minIntensity + intensityRange * (1 - normalizedDist);
@@ -133,38 +132,45 @@ export const customDemo: Effect = {
 
         if (animatedIntensity > 0.1) {
           const size = gridSize * animatedIntensity;
-          p.rectMode(p.CENTER);
-          p.rect(x + gridSize / 2, y + gridSize / 2, size, size);
+          g.rectMode("center");
+          g.rect(x + gridSize / 2, y + gridSize / 2, size, size);
         }
       }
     }
 
     if (enableRotation) {
-      p.pop();
+      g.pop();
     }
 
     // Draw curve visualization in corner
-    p.push();
-    p.translate(p.width - 100, 20);
-    p.stroke(ctx.colors.ink);
-    p.noFill();
-    p.rect(0, 0, 80, 60);
+    g.push();
+    g.translate(g.width - 100, 20);
+    g.stroke(ctx.colors.ink);
+    g.noFill();
+    g.rect(0, 0, 80, 60);
 
     const curve = params.animationCurve as { x: number; y: number }[];
     if (curve && curve.length >= 2) {
-      p.beginShape();
-      p.noFill();
-      for (let i = 0; i < curve.length; i++) {
-        const point = curve[i];
-        p.vertex(point.x * 80, (1 - point.y) * 60);
-      }
-      p.endShape();
+      g.noFill();
+      g.polygon(
+        curve.map((point) => ({ x: point.x * 80, y: (1 - point.y) * 60 })),
+        false,
+      );
 
       // Show current position on curve
       const normalizedTime = (t % 10) / 10;
-      p.fill(ctx.colors.ink);
-      p.circle(normalizedTime * 80, (1 - animationValue) * 60, 4);
+      g.fill(ctx.colors.ink);
+      g.ellipse(normalizedTime * 80, (1 - animationValue) * 60, 4, 4);
     }
-    p.pop();
+    g.pop();
+  },
+
+  serialize(g: Surface, ctx: EffectContext): unknown {
+    return { animationValue: ctx.data.animationValue };
+  },
+
+  deserialize(g: Surface, ctx: EffectContext, snapshot: unknown): void {
+    const saved = snapshot as { animationValue?: unknown } | null;
+    ctx.data = { animationValue: saved?.animationValue };
   },
 };
\ No newline at end of file
@@ -1,5 +1,4 @@
-import type p5 from "p5";
-import type { Effect } from "./types";
+import type { Effect, Surface } from "./types";
 
 const defaults = {
   shapeCount: 8,
@@ -38,7 +37,7 @@ const clamp = (value: number, min: number, max: number) =>
   Math.max(min, Math.min(max, value));
 
 const createShape = (
-  p: p5,
+  g: Surface,
   rng: () => number,
   layer: number,
   centerX: number,
@@ -61,54 +60,45 @@ const createShape = (
   };
 };
 
-const drawPolygon = (p: p5, sides: number, size: number) => {
-  p.beginShape();
-  for (let i = 0; i < sides; i++) {
+const drawPolygon = (g: Surface, sides: number, size: number) => {
+  const points = Array.from({ length: sides }, (_, i) => {
     const angle = (i * Math.PI * 2) / sides;
-    const x = Math.cos(angle) * size;
-    const y = Math.sin(angle) * size;
-    p.vertex(x, y);
-  }
-  p.endShape(p.CLOSE);
+    return { x: Math.cos(angle) * size, y: Math.sin(angle) * size };
+  });
+  g.polygon(points);
 };
 
-const drawStar = (p: p5, points: number, size: number) => {
+const drawStar = (g: Surface, points: number, size: number) => {
   const outerRadius = size;
   const innerRadius = size * 0.4;
 
-  p.beginShape();
-  for (let i = 0; i < points * 2; i++) {
+  const vertices = Array.from({ length: points * 2 }, (_, i) => {
     const angle = (i * Math.PI) / points;
     const radius = i % 2 === 0 ? outerRadius : innerRadius;
-    const x = Math.cos(angle) * radius;
-    const y = Math.sin(angle) * radius;
-    p.vertex(x, y);
-  }
-  p.endShape(p.CLOSE);
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+  g.polygon(vertices);
 };
 
-const drawFlower = (p: p5, petals: number, size: number) => {
+const drawFlower = (g: Surface, petals: number, size: number) => {
   for (let i = 0; i < petals; i++) {
-    p.push();
-    p.rotate((i * Math.PI * 2) / petals);
-    p.ellipse(size * 0.3, 0, size * 0.6, size * 0.3);
-    p.pop();
+    g.push();
+    g.rotate((i * Math.PI * 2) / petals);
+    g.ellipse(size * 0.3, 0, size * 0.6, size * 0.3);
+    g.pop();
   }
 };
 
-const drawGear = (p: p5, teeth: number, size: number) => {
+const drawGear = (g: Surface, teeth: number, size: number) => {
   const innerRadius = size * 0.7;
   const outerRadius = size;
 
-  p.beginShape();
-  for (let i = 0; i < teeth * 4; i++) {
+  const points = Array.from({ length: teeth * 4 }, (_, i) => {
     const angle = (i * Math.PI * 2) / (teeth * 4);
     const radius = i % 4 < 2 ? outerRadius : innerRadius;
-    const x = Math.cos(angle) * radius;
-    const y = Math.sin(angle) * radius;
-    p.vertex(x, y);
-  }
-  p.endShape(p.CLOSE);
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+  g.polygon(points);
 };
 
 export const geometric: Effect = {
@@ -141,18 +131,18 @@ export const geometric: Effect = {
     },
   ],
   defaults,
-  init(p, ctx, params) {
+  init(g, ctx, params) {
     const shapeCount = clamp(Number(params.shapeCount ?? defaults.shapeCount), 3, 50);
     const shapeSize = clamp(Number(params.shapeSize ?? defaults.shapeSize), 10, 200);
     const complexity = clamp(Number(params.complexity ?? defaults.complexity), 2, 8);
 
     const shapes: GeometricShape[] = [];
-    const centerX = p.width / 2;
-    const centerY = p.height / 2;
+    const centerX = g.width / 2;
+    const centerY = g.height / 2;
 
     for (let i = 0; i < shapeCount; i++) {
       const layer = Math.floor(i / 3) + 1;
-      shapes.push(createShape(p, ctx.rng, layer, centerX, centerY, shapeSize, complexity));
+      shapes.push(createShape(g, ctx.rng, layer, centerX, centerY, shapeSize, complexity));
     }
 
     const state: GeometricState = {
@@ -161,15 +151,14 @@ export const geometric: Effect = {
       lastShapeCount: shapeCount,
     };
 
-    p.pixelDensity(1);
-    p.noiseSeed(ctx.seedHash);
+    g.noiseSeed(ctx.seedHash);
 
     ctx.data = state;
   },
   update() {
     // No-op; all work done in render.
   },
-  render(p, ctx, t, _frame, params) {
+  render(g, ctx, t, _frame, params) {
     const state = ctx.data as GeometricState | undefined;
     if (!state || !state.prepared) return;
 
@@ -185,14 +174,14 @@ export const geometric: Effect = {
 
     // Adjust shape count if changed
     if (state.lastShapeCount !== shapeCount) {
-      const centerX = p.width / 2;
-      const centerY = p.height / 2;
+      const centerX = g.width / 2;
+      const centerY = g.height / 2;
 
       if (shapeCount > state.shapes.length) {
         // Add shapes
         while (state.shapes.length < shapeCount) {
           const layer = Math.floor(state.shapes.length / 3) + 1;
-          state.shapes.push(createShape(p, ctx.rng, layer, centerX, centerY, shapeSize, complexity));
+          state.shapes.push(createShape(g, ctx.rng, layer, centerX, centerY, shapeSize, complexity));
         }
       } else {
         // Remove shapes
@@ -201,20 +190,20 @@ export const geometric: Effect = {
       state.lastShapeCount = shapeCount;
     }
 
-    p.background(ctx.colors.paper);
-    p.stroke(ctx.colors.ink);
-    p.strokeWeight(2);
+    g.background(ctx.colors.paper);
+    g.stroke(ctx.colors.ink);
+    g.strokeWeight(2);
 
     const time = t * animSpeed;
-    const centerX = p.width / 2;
-    const centerY = p.height / 2;
+    const centerX = g.width / 2;
+    const centerY = g.height / 2;
 
     // Apply symmetry by drawing multiple rotated versions
     for (let sym = 0; sym < symmetry; sym++) {
-      p.push();
-      p.translate(centerX, centerY);
-      p.rotate((sym * Math.PI * 2) / symmetry);
-      p.translate(-centerX, -centerY);
+      g.push();
+      g.translate(centerX, centerY);
+      g.rotate((sym * Math.PI * 2) / symmetry);
+      g.translate(-centerX, -centerY);
 
       state.shapes.forEach((geoShape, i) => {
         let x = geoShape.x;
@@ -279,7 +268,7 @@ export const geometric: Effect = {
         // Set blend mode based on layering
         switch (layering) {
           case "subtract":
-            // p.blendMode(p.DIFFERENCE); // Not available in all p5 versions
+            // Surfaces have no difference blending; fading stands in for it.
             alpha *= 0.5;
             break;
           case "multiply":
@@ -294,49 +283,61 @@ export const geometric: Effect = {
             break;
         }
 
-        p.fill(ctx.colors.ink, alpha * 0.3);
-        p.stroke(ctx.colors.ink, alpha);
+        g.fill(ctx.colors.ink, alpha * 0.3);
+        g.stroke(ctx.colors.ink, alpha);
 
-        p.push();
-        p.translate(x, y);
-        p.rotate(rotation);
+        g.push();
+        g.translate(x, y);
+        g.rotate(rotation);
 
         // Draw the shape
         switch (shape) {
           case "polygon":
-            drawPolygon(p, geoShape.sides, size / 2);
+            drawPolygon(g, geoShape.sides, size / 2);
             break;
 
           case "circle":
-            p.ellipse(0, 0, size, size);
+            g.ellipse(0, 0, size, size);
             break;
 
           case "star":
-            drawStar(p, geoShape.sides, size / 2);
+            drawStar(g, geoShape.sides, size / 2);
             break;
 
           case "flower":
-            drawFlower(p, geoShape.sides, size / 2);
+            drawFlower(g, geoShape.sides, size / 2);
             break;
 
           case "gear":
-            drawGear(p, geoShape.sides, size / 2);
+            drawGear(g, geoShape.sides, size / 2);
             break;
 
           case "diamond":
-            p.beginShape();
-            p.vertex(0, -size / 2);
-            p.vertex(size / 4, 0);
-            p.vertex(0, size / 2);
-            p.vertex(-size / 4, 0);
-            p.endShape(p.CLOSE);
+            g.polygon([
+              { x: 0, y: -size / 2 },
+              { x: size / 4, y: 0 },
+              { x: 0, y: size / 2 },
+              { x: -size / 4, y: 0 },
+            ]);
             break;
         }
 
-        p.pop();
+        g.pop();
       });
 
-      p.pop();
+      g.pop();
     }
   },
+  serialize(_g, ctx) {
+    const state = ctx.data as GeometricState | undefined;
+    if (!state) return null;
+    const snapshot: GeometricState = { ...state, shapes: state.shapes.map((shape) => ({ ...shape })) };
+    return snapshot;
+  },
+  deserialize(_g, ctx, snapshot) {
+    const saved = snapshot as GeometricState | null;
+    if (!saved) return;
+    const state: GeometricState = { ...saved, shapes: saved.shapes.map((shape) => ({ ...shape })) };
+    ctx.data = state;
+  },
 };
\ No newline at end of file
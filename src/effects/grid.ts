@@ -1,5 +1,5 @@
-import type p5 from "p5";
-import type { Effect } from "./types";
+import type { Effect, EffectContext, Surface } from "./types";
+import { getLoopAngle } from "@/lib/loop";
 
 const defaults = {
   gridSize: 20,
@@ -26,10 +26,21 @@ type GridState = {
 const clamp = (value: number, min: number, max: number) =>
   Math.max(min, Math.min(max, value));
 
-const createGridCells = (p: p5, cols: number, rows: number, gridSize: number) => {
+/**
+ * Noise that drifts through time at `rate`. In loop mode the time axis becomes a
+ * circle through the noise field, so the pattern returns to its start each loop.
+ */
+const loopNoise = (g: Surface, ctx: EffectContext, x: number, y: number, time: number, rate: number) => {
+  if (!ctx.loopMode) return g.noise(x, y, time * rate);
+  const radius = (rate * ctx.durationSec) / (Math.PI * 2);
+  const angle = ctx.phase * Math.PI * 2;
+  return g.noise(x + Math.sin(angle) * radius, y, Math.cos(angle) * radius);
+};
+
+const createGridCells = (g: Surface, cols: number, rows: number, gridSize: number) => {
   const cells: Array<{ x: number; y: number; active: boolean; phase: number }> = [];
-  const offsetX = (p.width - (cols - 1) * gridSize) / 2;
-  const offsetY = (p.height - (rows - 1) * gridSize) / 2;
+  const offsetX = (g.width - (cols - 1) * gridSize) / 2;
+  const offsetY = (g.height - (rows - 1) * gridSize) / 2;
 
   for (let y = 0; y < rows; y++) {
     for (let x = 0; x < cols; x++) {
@@ -74,27 +85,27 @@ export const grid: Effect = {
     { key: "fadeEdges", type: "boolean", label: "Fade Edges" },
   ],
   defaults,
-  init(p, ctx, params) {
+  loopSafe: true,
+  init(g, ctx, params) {
     const gridSize = clamp(Number(params.gridSize ?? defaults.gridSize), 10, 100);
-    const cols = Math.floor(p.width / gridSize) + 1;
-    const rows = Math.floor(p.height / gridSize) + 1;
+    const cols = Math.floor(g.width / gridSize) + 1;
+    const rows = Math.floor(g.height / gridSize) + 1;
 
     const state: GridState = {
-      cells: createGridCells(p, cols, rows, gridSize),
+      cells: createGridCells(g, cols, rows, gridSize),
       cols,
       rows,
       prepared: true,
     };
 
-    p.pixelDensity(1);
-    p.noiseSeed(ctx.seedHash);
+    g.noiseSeed(ctx.seedHash);
 
     ctx.data = state;
   },
   update() {
     // No-op; all work done in render.
   },
-  render(p, ctx, t, _frame, params) {
+  render(g, ctx, t, _frame, params) {
     const state = ctx.data as GridState | undefined;
     if (!state || !state.prepared) return;
 
@@ -108,24 +119,26 @@ export const grid: Effect = {
     const fadeEdges = Boolean(params.fadeEdges ?? defaults.fadeEdges);
 
     // Recalculate grid if size changed
-    const cols = Math.floor(p.width / gridSize) + 1;
-    const rows = Math.floor(p.height / gridSize) + 1;
+    const cols = Math.floor(g.width / gridSize) + 1;
+    const rows = Math.floor(g.height / gridSize) + 1;
     if (state.cols !== cols || state.rows !== rows) {
-      state.cells = createGridCells(p, cols, rows, gridSize);
+      state.cells = createGridCells(g, cols, rows, gridSize);
       state.cols = cols;
       state.rows = rows;
     }
 
-    p.background(ctx.colors.paper);
-    p.stroke(ctx.colors.ink);
-    p.strokeWeight(lineWeight);
+    g.background(ctx.colors.paper);
+    g.stroke(ctx.colors.ink);
+    g.strokeWeight(lineWeight);
 
     if (fillMode === "none") {
-      p.noFill();
+      g.noFill();
     }
 
     const time = t * animSpeed;
-    const center = { x: p.width / 2, y: p.height / 2 };
+    // Oscillator angle at `rate` radians per unit of animated time; loop-aligned in loop mode.
+    const cycle = (rate: number) => getLoopAngle(ctx, animSpeed * rate, t);
+    const center = { x: g.width / 2, y: g.height / 2 };
 
     state.cells.forEach((cell, i) => {
       const col = i % cols;
@@ -144,29 +157,30 @@ export const grid: Effect = {
 
       switch (mode) {
         case "breathing": {
-          const breathe = Math.sin(time * 2 + cell.phase) * 0.3 + 1;
+          const breathe = Math.sin(cycle(2) + cell.phase) * 0.3 + 1;
           size *= breathe;
           alpha = (breathe * 200 + 55);
           break;
         }
 
         case "wave": {
-          const waveOffset = Math.sin(time + col * 0.2 + row * 0.15) * distortAmount;
+          const waveOffset = Math.sin(cycle(1) + col * 0.2 + row * 0.15) * distortAmount;
           y += waveOffset;
-          const wavePhase = Math.cos(time * 0.8 + col * 0.1);
+          const wavePhase = Math.cos(cycle(0.8) + col * 0.1);
           alpha = (wavePhase * 128 + 127);
           break;
         }
 
         case "rotate": {
-          rotation = time + cell.phase;
-          const rotationScale = Math.sin(time * 0.5 + cell.phase) * 0.5 + 0.7;
+          rotation = cycle(1) + cell.phase;
+          const rotationScale = Math.sin(cycle(0.5) + cell.phase) * 0.5 + 0.7;
           size *= rotationScale;
           break;
         }
 
         case "expand": {
-          const expandPhase = (time + distFromCenter * 0.01) % 2;
+          // Period of 2 time units, i.e. pi radians per unit.
+          const expandPhase = (cycle(Math.PI) / Math.PI + distFromCenter * 0.01) % 2;
           if (expandPhase < 1) {
             size *= expandPhase;
             alpha = expandPhase * 255;
@@ -178,8 +192,8 @@ export const grid: Effect = {
         }
 
         case "flicker": {
-          if (p.noise(col * 0.1, row * 0.1, time * 2) > 0.6) {
-            alpha = p.noise(col * 0.05, row * 0.05, time * 5) * 255;
+          if (loopNoise(g, ctx, col * 0.1, row * 0.1, time, 2) > 0.6) {
+            alpha = loopNoise(g, ctx, col * 0.05, row * 0.05, time, 5) * 255;
           } else {
             alpha = 50;
           }
@@ -188,7 +202,7 @@ export const grid: Effect = {
 
         case "spiral": {
           const angle = Math.atan2(y - center.y, x - center.x);
-          const spiralTime = time - distFromCenter * 0.01 + angle * 0.5;
+          const spiralTime = cycle(1) - distFromCenter * 0.01 + angle * 0.5;
           const spiralScale = Math.sin(spiralTime * 3) * 0.4 + 0.8;
           size *= spiralScale;
           rotation = spiralTime;
@@ -210,73 +224,83 @@ export const grid: Effect = {
         switch (fillMode) {
           case "alternate":
             if ((col + row) % 2 === 0) {
-              p.fill(ctx.colors.ink, fillAlpha * 0.3);
+              g.fill(ctx.colors.ink, fillAlpha * 0.3);
             } else {
-              p.noFill();
+              g.noFill();
             }
             break;
           case "random":
-            if (p.noise(col * 0.1, row * 0.1) > 0.5) {
-              p.fill(ctx.colors.ink, fillAlpha * 0.4);
+            if (g.noise(col * 0.1, row * 0.1) > 0.5) {
+              g.fill(ctx.colors.ink, fillAlpha * 0.4);
             } else {
-              p.noFill();
+              g.noFill();
             }
             break;
           case "gradient":
-            const gradientAlpha = (distFromCenter / Math.max(p.width, p.height)) * fillAlpha * 0.5;
-            p.fill(ctx.colors.ink, gradientAlpha);
+            const gradientAlpha = (distFromCenter / Math.max(g.width, g.height)) * fillAlpha * 0.5;
+            g.fill(ctx.colors.ink, gradientAlpha);
             break;
         }
       }
 
-      p.stroke(ctx.colors.ink, alpha);
+      g.stroke(ctx.colors.ink, alpha);
 
-      p.push();
-      p.translate(x, y);
+      g.push();
+      g.translate(x, y);
       if (rotation !== 0) {
-        p.rotate(rotation);
+        g.rotate(rotation);
       }
 
       // Draw different patterns
       switch (pattern) {
         case "square":
-          p.rect(-size / 2, -size / 2, size, size);
+          g.rect(-size / 2, -size / 2, size, size);
           break;
 
         case "diagonal":
-          p.beginShape();
-          p.vertex(-size / 2, 0);
-          p.vertex(0, -size / 2);
-          p.vertex(size / 2, 0);
-          p.vertex(0, size / 2);
-          p.endShape(p.CLOSE);
+          g.polygon([
+            { x: -size / 2, y: 0 },
+            { x: 0, y: -size / 2 },
+            { x: size / 2, y: 0 },
+            { x: 0, y: size / 2 },
+          ]);
           break;
 
         case "hexagon":
-          p.beginShape();
-          for (let i = 0; i < 6; i++) {
-            const angle = (i * Math.PI) / 3;
-            const hx = (size / 2) * Math.cos(angle);
-            const hy = (size / 2) * Math.sin(angle);
-            p.vertex(hx, hy);
-          }
-          p.endShape(p.CLOSE);
+          g.polygon(
+            Array.from({ length: 6 }, (_, i) => {
+              const angle = (i * Math.PI) / 3;
+              return { x: (size / 2) * Math.cos(angle), y: (size / 2) * Math.sin(angle) };
+            }),
+          );
           break;
 
         case "triangle":
-          p.beginShape();
-          p.vertex(0, -size / 2);
-          p.vertex(-size / 2, size / 2);
-          p.vertex(size / 2, size / 2);
-          p.endShape(p.CLOSE);
+          g.polygon([
+            { x: 0, y: -size / 2 },
+            { x: -size / 2, y: size / 2 },
+            { x: size / 2, y: size / 2 },
+          ]);
           break;
 
         case "circle":
-          p.ellipse(0, 0, size, size);
+          g.ellipse(0, 0, size, size);
           break;
       }
 
-      p.pop();
+      g.pop();
     });
   },
+  serialize(_g, ctx) {
+    const state = ctx.data as GridState | undefined;
+    if (!state) return null;
+    const snapshot: GridState = { ...state, cells: state.cells.map((cell) => ({ ...cell })) };
+    return snapshot;
+  },
+  deserialize(_g, ctx, snapshot) {
+    const saved = snapshot as GridState | null;
+    if (!saved) return;
+    const state: GridState = { ...saved, cells: saved.cells.map((cell) => ({ ...cell })) };
+    ctx.data = state;
+  },
 };
\ No newline at end of file
@@ -1,6 +1,5 @@
-import type p5 from "p5";
-
 import type { Effect } from "@/effects/types";
+import { getLoopAngle } from "@/lib/loop";
 
 type OrbitingBarsState = {
   offsets: number[];
@@ -34,21 +33,19 @@ export const orbitingBars: Effect = {
     { key: "wobble", type: "number", label: "Wobble", min: 0, max: 1, step: 0.05 },
   ],
   defaults,
-  init(p, ctx, params) {
+  loopSafe: true,
+  init(_g, ctx, params) {
     const state = ensureState(ctx.data as OrbitingBarsState | undefined);
     const count = Math.max(2, Math.round(Number(params.count ?? defaults.count)));
 
     // Precompute deterministic phase offsets per bar.
     state.offsets = Array.from({ length: count }, () => ctx.rng());
     ctx.data = state;
-
-    p.noSmooth();
-    p.pixelDensity(1);
   },
   update() {
     // No intermediate state updates required; everything driven in render.
   },
-  render(p, ctx, t, _frame, params) {
+  render(g, ctx, t, _frame, params) {
     const state = ensureState(ctx.data as OrbitingBarsState | undefined);
     const count = Math.max(2, Math.round(Number(params.count ?? defaults.count)));
 
@@ -65,31 +62,43 @@ export const orbitingBars: Effect = {
 
     const ink = ctx.colors.ink;
     const paper = ctx.colors.paper;
+    const orbit = getLoopAngle(ctx, speed * Math.PI * 2, t);
+    const wobbleAngle = getLoopAngle(ctx, speed * 2, t);
 
-    p.background(paper);
-    p.push();
-    p.translate(p.width / 2, p.height / 2);
-    p.stroke(ink);
-    p.fill(ink);
-    p.rectMode(p.CENTER);
+    g.background(paper);
+    g.push();
+    g.translate(g.width / 2, g.height / 2);
+    g.stroke(ink);
+    g.fill(ink);
+    g.rectMode("center");
 
     for (let i = 0; i < count; i += 1) {
       const baseAngle = (i / count) * Math.PI * 2;
       const phase = state.offsets[i] * Math.PI * 2;
-      const angle = baseAngle + phase + t * speed * Math.PI * 2;
-      const wobbleOffset = Math.sin(t * speed * 2 + phase) * wobble * radius;
+      const angle = baseAngle + phase + orbit;
+      const wobbleOffset = Math.sin(wobbleAngle + phase) * wobble * radius;
       const currentRadius = radius + wobbleOffset;
 
       const x = Math.cos(angle) * currentRadius;
       const y = Math.sin(angle) * currentRadius;
 
-      p.push();
-      p.translate(x, y);
-      p.rotate(angle);
-      p.rect(0, 0, barLength, thickness);
-      p.pop();
+      g.push();
+      g.translate(x, y);
+      g.rotate(angle);
+      g.rect(0, 0, barLength, thickness);
+      g.pop();
     }
 
-    p.pop();
+    g.pop();
+  },
+  serialize(_g, ctx) {
+    const state = ensureState(ctx.data as OrbitingBarsState | undefined);
+    const snapshot: OrbitingBarsState = { offsets: state.offsets.slice() };
+    return snapshot;
+  },
+  deserialize(_g, ctx, snapshot) {
+    const saved = ensureState(snapshot as OrbitingBarsState | undefined);
+    const state: OrbitingBarsState = { offsets: saved.offsets.slice() };
+    ctx.data = state;
   },
 };
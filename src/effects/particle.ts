@@ -1,5 +1,4 @@
-import type p5 from "p5";
-import type { Effect } from "./types";
+import type { Effect, Surface } from "./types";
 
 const defaults = {
   particleCount: 100,
@@ -35,13 +34,18 @@ type ParticleState = {
   lastCount: number;
 };
 
+const cloneParticle = (particle: Particle): Particle => ({
+  ...particle,
+  trail: particle.trail.map((point) => ({ ...point })),
+});
+
 const clamp = (value: number, min: number, max: number) =>
   Math.max(min, Math.min(max, value));
 
-const createParticle = (p: p5, rng: () => number, particleSize: number): Particle => {
+const createParticle = (g: Surface, rng: () => number, particleSize: number): Particle => {
   return {
-    x: rng() * p.width,
-    y: rng() * p.height,
+    x: rng() * g.width,
+    y: rng() * g.height,
     vx: (rng() - 0.5) * 2,
     vy: (rng() - 0.5) * 2,
     life: 1.0,
@@ -54,7 +58,7 @@ const createParticle = (p: p5, rng: () => number, particleSize: number): Particl
 
 const updateParticle = (
   particle: Particle,
-  p: p5,
+  g: Surface,
   rng: () => number,
   mode: ParticleMode,
   speed: number,
@@ -64,7 +68,7 @@ const updateParticle = (
   allParticles: Particle[],
   interaction: InteractionType
 ) => {
-  const center = { x: p.width / 2, y: p.height / 2 };
+  const center = { x: g.width / 2, y: g.height / 2 };
 
   // Update trail
   particle.trail.unshift({ x: particle.x, y: particle.y, age: 0 });
@@ -78,7 +82,7 @@ const updateParticle = (
   switch (mode) {
     case "flow": {
       const noiseScale = 0.01;
-      const angle = p.noise(particle.x * noiseScale, particle.y * noiseScale, time * 0.5) * Math.PI * 2;
+      const angle = g.noise(particle.x * noiseScale, particle.y * noiseScale, time * 0.5) * Math.PI * 2;
       fx = Math.cos(angle) * speed;
       fy = Math.sin(angle) * speed;
       break;
@@ -178,17 +182,17 @@ const updateParticle = (
   particle.y += particle.vy;
 
   // Wrap around edges
-  if (particle.x < 0) particle.x = p.width;
-  if (particle.x > p.width) particle.x = 0;
-  if (particle.y < 0) particle.y = p.height;
-  if (particle.y > p.height) particle.y = 0;
+  if (particle.x < 0) particle.x = g.width;
+  if (particle.x > g.width) particle.x = 0;
+  if (particle.y < 0) particle.y = g.height;
+  if (particle.y > g.height) particle.y = 0;
 
   // Update life
   particle.life -= 0.002;
   if (particle.life <= 0) {
     // Respawn
-    particle.x = rng() * p.width;
-    particle.y = rng() * p.height;
+    particle.x = rng() * g.width;
+    particle.y = rng() * g.height;
     particle.vx = (rng() - 0.5) * 2;
     particle.vy = (rng() - 0.5) * 2;
     particle.life = particle.maxLife;
@@ -226,13 +230,13 @@ export const particle: Effect = {
     },
   ],
   defaults,
-  init(p, ctx, params) {
+  init(g, ctx, params) {
     const particleCount = clamp(Number(params.particleCount ?? defaults.particleCount), 10, 500);
     const particleSize = clamp(Number(params.particleSize ?? defaults.particleSize), 1, 20);
 
     const particles: Particle[] = [];
     for (let i = 0; i < particleCount; i++) {
-      particles.push(createParticle(p, ctx.rng, particleSize));
+      particles.push(createParticle(g, ctx.rng, particleSize));
     }
 
     const state: ParticleState = {
@@ -241,15 +245,14 @@ export const particle: Effect = {
       lastCount: particleCount,
     };
 
-    p.pixelDensity(1);
-    p.noiseSeed(ctx.seedHash);
+    g.noiseSeed(ctx.seedHash);
 
     ctx.data = state;
   },
   update() {
     // No-op; all work done in render.
   },
-  render(p, ctx, t, _frame, params) {
+  render(g, ctx, t, _frame, params) {
     const state = ctx.data as ParticleState | undefined;
     if (!state || !state.prepared) return;
 
@@ -268,7 +271,7 @@ export const particle: Effect = {
       if (particleCount > state.particles.length) {
         // Add particles
         while (state.particles.length < particleCount) {
-          state.particles.push(createParticle(p, ctx.rng, particleSize));
+          state.particles.push(createParticle(g, ctx.rng, particleSize));
         }
       } else {
         // Remove particles
@@ -277,65 +280,77 @@ export const particle: Effect = {
       state.lastCount = particleCount;
     }
 
-    p.background(ctx.colors.paper);
+    g.background(ctx.colors.paper);
 
     // Update and render particles
     state.particles.forEach(particle => {
-      updateParticle(particle, p, ctx.rng, mode, speed, attraction, repulsion, t, state.particles, interaction);
+      updateParticle(particle, g, ctx.rng, mode, speed, attraction, repulsion, t, state.particles, interaction);
 
       // Draw trail
       if (trailLength > 0) {
-        p.stroke(ctx.colors.ink);
-        p.noFill();
+        g.stroke(ctx.colors.ink);
+        g.noFill();
         for (let i = 1; i < Math.min(particle.trail.length, trailLength); i++) {
           const current = particle.trail[i];
           const previous = particle.trail[i - 1];
           const alpha = (1 - i / trailLength) * particle.life * 255;
 
-          p.strokeWeight(1 + (1 - i / trailLength) * 2);
-          p.stroke(ctx.colors.ink, alpha);
-          p.line(previous.x, previous.y, current.x, current.y);
+          g.strokeWeight(1 + (1 - i / trailLength) * 2);
+          g.stroke(ctx.colors.ink, alpha);
+          g.line(previous.x, previous.y, current.x, current.y);
         }
       }
 
       // Draw particle
       const alpha = particle.life * 255;
-      p.fill(ctx.colors.ink, alpha);
-      p.stroke(ctx.colors.ink, alpha);
-      p.strokeWeight(1);
+      g.fill(ctx.colors.ink, alpha);
+      g.stroke(ctx.colors.ink, alpha);
+      g.strokeWeight(1);
 
-      p.push();
-      p.translate(particle.x, particle.y);
-      p.rotate(particle.phase + t);
+      g.push();
+      g.translate(particle.x, particle.y);
+      g.rotate(particle.phase + t);
 
       switch (shape) {
         case "circle":
-          p.ellipse(0, 0, particle.size, particle.size);
+          g.ellipse(0, 0, particle.size, particle.size);
           break;
 
         case "square":
-          p.rect(-particle.size / 2, -particle.size / 2, particle.size, particle.size);
+          g.rect(-particle.size / 2, -particle.size / 2, particle.size, particle.size);
           break;
 
         case "triangle":
-          p.beginShape();
-          p.vertex(0, -particle.size / 2);
-          p.vertex(-particle.size / 2, particle.size / 2);
-          p.vertex(particle.size / 2, particle.size / 2);
-          p.endShape(p.CLOSE);
+          g.polygon([
+            { x: 0, y: -particle.size / 2 },
+            { x: -particle.size / 2, y: particle.size / 2 },
+            { x: particle.size / 2, y: particle.size / 2 },
+          ]);
           break;
 
         case "line":
-          p.line(-particle.size / 2, 0, particle.size / 2, 0);
+          g.line(-particle.size / 2, 0, particle.size / 2, 0);
           break;
 
         case "cross":
-          p.line(-particle.size / 2, 0, particle.size / 2, 0);
-          p.line(0, -particle.size / 2, 0, particle.size / 2);
+          g.line(-particle.size / 2, 0, particle.size / 2, 0);
+          g.line(0, -particle.size / 2, 0, particle.size / 2);
           break;
       }
 
-      p.pop();
+      g.pop();
     });
   },
+  serialize(_g, ctx) {
+    const state = ctx.data as ParticleState | undefined;
+    if (!state) return null;
+    const snapshot: ParticleState = { ...state, particles: state.particles.map(cloneParticle) };
+    return snapshot;
+  },
+  deserialize(_g, ctx, snapshot) {
+    const saved = snapshot as ParticleState | null;
+    if (!saved) return;
+    const state: ParticleState = { ...saved, particles: saved.particles.map(cloneParticle) };
+    ctx.data = state;
+  },
 };
\ No newline at end of file
@@ -1,6 +1,5 @@
-import type p5 from "p5";
-
 import type { Effect } from "@/effects/types";
+import { getLoopAngle } from "@/lib/loop";
 
 type RippleState = {
   phases: number[];
@@ -32,16 +31,15 @@ export const rippleQuantized: Effect = {
     { key: "thickness", type: "number", label: "Thickness", min: 2, max: 24, step: 1 },
   ],
   defaults,
-  init(p, ctx, params) {
+  loopSafe: true,
+  init(_g, ctx, params) {
     const state = ensureState(ctx.data as RippleState | undefined);
     const rings = Math.max(2, Math.round(Number(params.rings ?? defaults.rings)));
     state.phases = Array.from({ length: rings }, () => ctx.rng());
     ctx.data = state;
-    p.noSmooth();
-    p.pixelDensity(1);
   },
   update() {},
-  render(p, ctx, t, _frame, params) {
+  render(g, ctx, t, _frame, params) {
     const state = ensureState(ctx.data as RippleState | undefined);
     const rings = Math.max(2, Math.round(Number(params.rings ?? defaults.rings)));
     const spacing = Number(params.spacing ?? defaults.spacing);
@@ -56,25 +54,36 @@ export const rippleQuantized: Effect = {
 
     const ink = ctx.colors.ink;
     const paper = ctx.colors.paper;
-    const maxRadius = Math.min(p.width, p.height) / 2;
+    const maxRadius = Math.min(g.width, g.height) / 2;
+    const wave = getLoopAngle(ctx, speed * 2 * Math.PI, t);
 
-    p.background(paper);
-    p.push();
-    p.translate(p.width / 2, p.height / 2);
-    p.stroke(ink);
-    p.noFill();
-    p.strokeWeight(thickness);
+    g.background(paper);
+    g.push();
+    g.translate(g.width / 2, g.height / 2);
+    g.stroke(ink);
+    g.noFill();
+    g.strokeWeight(thickness);
 
     for (let i = 0; i < rings; i += 1) {
       const basePhase = state.phases[i];
-      const rawRadius = i * spacing + (Math.sin(t * speed * 2 * Math.PI + basePhase) * spacing) / 2;
+      const rawRadius = i * spacing + (Math.sin(wave + basePhase) * spacing) / 2;
       const quantStep = spacing / quantize;
       const quantized = Math.round(rawRadius / quantStep) * quantStep;
       const noisy = quantized + (ctx.rng() - 0.5) * jitter * spacing;
       const radius = Math.max(10, Math.min(maxRadius, noisy));
-      p.ellipse(0, 0, radius * 2, radius * 2);
+      g.ellipse(0, 0, radius * 2, radius * 2);
     }
 
-    p.pop();
+    g.pop();
+  },
+  serialize(_g, ctx) {
+    const state = ensureState(ctx.data as RippleState | undefined);
+    const snapshot: RippleState = { phases: state.phases.slice() };
+    return snapshot;
+  },
+  deserialize(_g, ctx, snapshot) {
+    const saved = ensureState(snapshot as RippleState | undefined);
+    const state: RippleState = { phases: saved.phases.slice() };
+    ctx.data = state;
   },
 };
@@ -1,4 +1,3 @@
-import type p5 from "p5";
 import type { Effect } from "./types";
 
 type ScanlineState = {
@@ -68,20 +67,19 @@ export const scanlineReveal: Effect = {
     },
   ],
   defaults,
-  init(p, _ctx, _params) {
+  init(g, _ctx, _params) {
     const state: ScanlineState = { prepared: true };
-    p.rectMode(p.CENTER);
-    p.strokeWeight(1);
-    p.noSmooth();
+    g.rectMode("center");
+    g.strokeWeight(1);
     _ctx.data = state;
   },
   update() {
     // Animation handled in render.
   },
-  render(p, ctx, t, _frame, params) {
+  render(g, ctx, t, _frame, params) {
     const colors = ctx.colors;
-    const width = p.width;
-    const height = p.height;
+    const width = g.width;
+    const height = g.height;
     const diag = Math.sqrt(width * width + height * height);
     const stripeSpacing = 6;
 
@@ -96,46 +94,56 @@ export const scanlineReveal: Effect = {
     const travel = ((t * speed) % 1) * spacing;
     const angleRad = (angleDeg * Math.PI) / 180;
 
-    p.push();
-    p.translate(width / 2, height / 2);
-    p.rotate(angleRad);
+    g.push();
+    g.translate(width / 2, height / 2);
+    g.rotate(angleRad);
 
     // Background scanlines
-    p.stroke(colors.ink);
-    p.noFill();
+    g.stroke(colors.ink);
+    g.noFill();
     for (let y = -diag; y <= diag; y += stripeSpacing) {
-      p.line(-diag, y, diag, y);
+      g.line(-diag, y, diag, y);
     }
 
     // Animated band(s)
-    p.noStroke();
-    p.fill(colors.paper);
+    g.noStroke();
+    g.fill(colors.paper);
     const bandHeight = diag * 1.6;
 
     for (let k = -repeat - 2; k <= repeat + 2; k += 1) {
       const base = k * spacing + travel - spacing / 2;
       const jitter = (ctx.rng() - 0.5) * noise * bandWidth;
       const widthAdjusted = clamp(bandWidth + jitter, 4, diag);
-      p.rect(base, 0, widthAdjusted, bandHeight);
+      g.rect(base, 0, widthAdjusted, bandHeight);
       if (mirror) {
-        p.rect(-base, 0, widthAdjusted, bandHeight);
+        g.rect(-base, 0, widthAdjusted, bandHeight);
       }
     }
 
     // Outline edges of the animated band to bring back the ink color.
-    p.noFill();
-    p.stroke(colors.ink);
+    g.noFill();
+    g.stroke(colors.ink);
     const outlineBandWidth = bandWidth * 0.6;
     for (let k = -repeat - 2; k <= repeat + 2; k += 1) {
       const base = k * spacing + travel - spacing / 2;
       const jitter = (ctx.rng() - 0.5) * noise * outlineBandWidth;
       const w = clamp(outlineBandWidth + jitter, 4, diag);
-      p.rect(base, 0, w, bandHeight * 1.02);
+      g.rect(base, 0, w, bandHeight * 1.02);
       if (mirror) {
-        p.rect(-base, 0, w, bandHeight * 1.02);
+        g.rect(-base, 0, w, bandHeight * 1.02);
       }
     }
 
-    p.pop();
+    g.pop();
+  },
+  serialize(_g, ctx) {
+    const state = ctx.data as ScanlineState | undefined;
+    return state ? { ...state } : null;
+  },
+  deserialize(_g, ctx, snapshot) {
+    const saved = snapshot as ScanlineState | null;
+    if (!saved) return;
+    const state: ScanlineState = { ...saved };
+    ctx.data = state;
   },
 };
@@ -1,4 +1,3 @@
-import type p5 from "p5";
 import type { Effect } from "./types";
 
 type SquareDriftState = {
@@ -75,14 +74,14 @@ export const squareDrift: Effect = {
     },
   ],
   defaults,
-  init(p, ctx, params) {
+  init(g, ctx, params) {
     const state = ensureState(ctx.data as SquareDriftState | undefined);
     const cols = Number(params.gridCols ?? defaults.gridCols);
     const rows = Number(params.gridRows ?? defaults.gridRows);
 
     state.cache = [];
-    const cellW = p.width / cols;
-    const cellH = p.height / rows;
+    const cellW = g.width / cols;
+    const cellH = g.height / rows;
 
     for (let y = 0; y < rows; y += 1) {
       for (let x = 0; x < cols; x += 1) {
@@ -95,14 +94,13 @@ export const squareDrift: Effect = {
     }
 
     ctx.data = state;
-    p.pixelDensity(1);
-    p.rectMode(p.CENTER);
-    p.noiseSeed(ctx.seedHash);
+    g.rectMode("center");
+    g.noiseSeed(ctx.seedHash);
   },
   update() {
     // No-op for now; animation handled in render.
   },
-  render(p, ctx, t, _frame, params) {
+  render(g, ctx, t, _frame, params) {
     const state = ensureState(ctx.data as SquareDriftState | undefined);
     const cols = Number(params.gridCols ?? defaults.gridCols);
     const rows = Number(params.gridRows ?? defaults.gridRows);
@@ -115,13 +113,13 @@ export const squareDrift: Effect = {
       return;
     }
 
-    const cellW = p.width / cols;
-    const cellH = p.height / rows;
+    const cellW = g.width / cols;
+    const cellH = g.height / rows;
     const jitterScale = Math.min(cellW, cellH) * jitter * 0.5;
     const ink = ctx.colors.ink;
 
-    p.noStroke();
-    p.fill(ink);
+    g.noStroke();
+    g.fill(ink);
 
     const time = t * speed;
 
@@ -129,7 +127,7 @@ export const squareDrift: Effect = {
       const cell = state.cache[i];
       const cx = cell.x + cellW / 2;
       const cy = cell.y + cellH / 2;
-      const noiseValue = p.noise(
+      const noiseValue = g.noise(
         (cx + cell.offset * 10) * noiseScale,
         (cy - cell.offset * 10) * noiseScale,
         time * noiseScale,
@@ -138,8 +136,18 @@ export const squareDrift: Effect = {
       if (noiseValue > threshold) {
         const jitterX = (ctx.rng() - 0.5) * 2 * jitterScale;
         const jitterY = (ctx.rng() - 0.5) * 2 * jitterScale;
-        p.rect(cx + jitterX, cy + jitterY, cellW - 1, cellH - 1);
+        g.rect(cx + jitterX, cy + jitterY, cellW - 1, cellH - 1);
       }
     }
   },
+  serialize(_g, ctx) {
+    const state = ensureState(ctx.data as SquareDriftState | undefined);
+    const snapshot: SquareDriftState = { cache: state.cache.map((cell) => ({ ...cell })) };
+    return snapshot;
+  },
+  deserialize(_g, ctx, snapshot) {
+    const saved = ensureState(snapshot as SquareDriftState | undefined);
+    const state: SquareDriftState = { cache: saved.cache.map((cell) => ({ ...cell })) };
+    ctx.data = state;
+  },
 };
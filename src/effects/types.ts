@@ -1,5 +1,7 @@
 import type p5 from "p5";
 
+import type { EasingType } from "@/lib/easing";
+
 export type ParamDef =
   | {
       key: string;
@@ -49,7 +51,13 @@ export interface EffectLayer {
   opacity: number;
   blendMode: BlendMode;
   enabled: boolean;
+  /** While any layer is soloed, only soloed layers render. */
+  solo?: boolean;
+  /** Temporarily hides the layer without touching `enabled`. */
+  muted?: boolean;
   params: ParamValues;
+  /** Keyframed params override `params` while rendering; see `src/lib/keyframes.ts`. */
+  keyframes?: KeyframeTracks;
 }
 
 export type ParamValue =
@@ -61,6 +69,16 @@ export type ParamValue =
   | { x: number; y: number }[];
 export type ParamValues = Record<string, ParamValue>;
 
+export interface Keyframe {
+  frame: number;
+  value: ParamValue;
+  /** Easing applied from this keyframe towards the next one. */
+  easing: EasingType;
+}
+
+/** Keyframes per param key, sorted by frame. */
+export type KeyframeTracks = Record<string, Keyframe[]>;
+
 export interface EffectContext {
   rng: () => number;
   data: Record<string, unknown>;
@@ -69,6 +87,63 @@ export interface EffectContext {
     paper: number;
     ink: number;
   };
+  /** Position in the loop, 0 at the first frame and 1 one frame past the last. */
+  phase: number;
+  durationSec: number;
+  /** When set, loop-safe effects drive their motion from `phase` so the loop closes exactly. */
+  loopMode: boolean;
+}
+
+export type Point = { x: number; y: number };
+
+export type TextAlign = "left" | "center" | "right";
+export type TextBaseline = "top" | "center" | "bottom" | "baseline";
+
+/**
+ * What effects draw with, so they don't depend on p5 directly; the compositor
+ * hands each layer a p5-backed one (see `src/lib/p5Surface.ts`). Colours are grey
+ * levels 0–255 with optional alpha. Styles set in `init` hold for every frame;
+ * styles and transforms set while rendering are reset after each frame.
+ */
+export interface Surface {
+  /** Size the effect draws at, whatever the resolution of the buffer behind it. */
+  readonly width: number;
+  readonly height: number;
+  background(gray: number): void;
+  fill(gray: number, alpha?: number): void;
+  noFill(): void;
+  stroke(gray: number, alpha?: number): void;
+  noStroke(): void;
+  strokeWeight(weight: number): void;
+  /** Whether `rect` positions by its top-left corner (the default) or its center. */
+  rectMode(mode: "corner" | "center"): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  ellipse(x: number, y: number, width: number, height: number): void;
+  line(x1: number, y1: number, x2: number, y2: number): void;
+  /** Outline through `points`, closed back to the first point unless `closed` is false. */
+  polygon(points: readonly Point[], closed?: boolean): void;
+  textFont(font: string): void;
+  textSize(size: number): void;
+  textAlign(horizontal: TextAlign, vertical?: TextBaseline): void;
+  textWidth(text: string): number;
+  text(text: string, x: number, y: number): void;
+  push(): void;
+  pop(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  scale(x: number, y?: number): void;
+  /** Perlin noise in 0..1; every layer shares one field, seeded by `noiseSeed`. */
+  noise(x: number, y?: number, z?: number): number;
+  noiseSeed(seed: number): void;
+  /** Offscreen buffer at 1 pixel per unit, for drawing that accumulates across frames. */
+  createBuffer(width: number, height: number): SurfaceBuffer;
+  image(buffer: SurfaceBuffer, x: number, y: number): void;
+}
+
+export interface SurfaceBuffer extends Surface {
+  getPixels(): ImageData;
+  putPixels(pixels: ImageData): void;
+  remove(): void;
 }
 
 export interface Effect {
@@ -76,9 +151,18 @@ export interface Effect {
   name: string;
   params: ParamDef[];
   defaults: ParamValues;
-  init(p: p5, ctx: EffectContext, params: ParamValues): void;
-  update(p: p5, ctx: EffectContext, t: number, frame: number, params: ParamValues): void;
-  render(p: p5, ctx: EffectContext, t: number, frame: number, params: ParamValues): void;
+  /** True when the effect's motion closes exactly in loop mode (see `src/lib/loop.ts`). */
+  loopSafe?: boolean;
+  init(g: Surface, ctx: EffectContext, params: ParamValues): void;
+  update(g: Surface, ctx: EffectContext, t: number, frame: number, params: ParamValues): void;
+  render(g: Surface, ctx: EffectContext, t: number, frame: number, params: ParamValues): void;
+  /**
+   * Optional snapshot hooks for seeking. Effects whose `ctx.data` is structured-clone
+   * safe can omit both; the runtime clones it. Effects holding surface buffers must
+   * return plain data here and rebuild `ctx.data` in `deserialize`.
+   */
+  serialize?(g: Surface, ctx: EffectContext): unknown;
+  deserialize?(g: Surface, ctx: EffectContext, snapshot: unknown): void;
 }
 
 export interface BlendContext {
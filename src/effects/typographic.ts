@@ -1,5 +1,4 @@
-import type p5 from "p5";
-import type { Effect } from "./types";
+import type { Effect, Surface } from "./types";
 
 const defaults = {
   text: "TYPE",
@@ -28,33 +27,33 @@ const clamp = (value: number, min: number, max: number) =>
   Math.max(min, Math.min(max, value));
 
 const calculateTextLayout = (
-  p: p5,
+  g: Surface,
   text: string,
   fontSize: number,
   letterSpacing: number,
   kerning: number
 ) => {
-  p.textSize(fontSize);
+  g.textSize(fontSize);
   const chars = text.split("");
   const metrics: Array<{ x: number; y: number; width: number; height: number }> = [];
 
   let totalWidth = 0;
   for (const char of chars) {
-    const charWidth = p.textWidth(char);
+    const charWidth = g.textWidth(char);
     totalWidth += charWidth * letterSpacing + kerning;
   }
   totalWidth -= kerning; // Remove last kerning
 
-  const startX = (p.width - totalWidth) / 2;
+  const startX = (g.width - totalWidth) / 2;
   let currentX = startX;
 
   chars.forEach((char) => {
-    const charWidth = p.textWidth(char);
+    const charWidth = g.textWidth(char);
     const charHeight = fontSize; // Approximate
 
     metrics.push({
       x: currentX,
-      y: p.height / 2,
+      y: g.height / 2,
       width: charWidth,
       height: charHeight
     });
@@ -90,7 +89,7 @@ export const typographic: Effect = {
     },
   ],
   defaults,
-  init(p, ctx, params) {
+  init(g, ctx, params) {
     const text = String(params.text ?? defaults.text);
     const fontSize = clamp(Number(params.fontSize ?? defaults.fontSize), 20, 300);
     const letterSpacing = clamp(Number(params.letterSpacing ?? defaults.letterSpacing), 0.5, 3);
@@ -104,14 +103,13 @@ export const typographic: Effect = {
       typewriterIndex: 0,
     };
 
-    p.pixelDensity(1);
-    p.noStroke();
-    p.textAlign(p.LEFT, p.CENTER);
-    p.textFont("monospace");
-    p.noiseSeed(ctx.seedHash);
+    g.noStroke();
+    g.textAlign("left", "center");
+    g.textFont("monospace");
+    g.noiseSeed(ctx.seedHash);
 
     // Calculate initial layout
-    state.textMetrics = calculateTextLayout(p, text, fontSize, letterSpacing, kerning);
+    state.textMetrics = calculateTextLayout(g, text, fontSize, letterSpacing, kerning);
     state.prepared = true;
 
     ctx.data = state;
@@ -119,7 +117,7 @@ export const typographic: Effect = {
   update() {
     // No-op; all work done in render.
   },
-  render(p, ctx, t, _frame, params) {
+  render(g, ctx, t, _frame, params) {
     const state = ctx.data as TypographicState | undefined;
     if (!state || !state.prepared) return;
 
@@ -136,25 +134,25 @@ export const typographic: Effect = {
     // Recalculate layout if text changed
     if (state.lastText !== text) {
       state.textChars = text.split("");
-      state.textMetrics = calculateTextLayout(p, text, fontSize, letterSpacing, kerning);
+      state.textMetrics = calculateTextLayout(g, text, fontSize, letterSpacing, kerning);
       state.lastText = text;
       state.typewriterIndex = 0;
     }
 
-    p.background(ctx.colors.paper);
-    p.fill(ctx.colors.ink);
-    p.textSize(fontSize);
+    g.background(ctx.colors.paper);
+    g.fill(ctx.colors.ink);
+    g.textSize(fontSize);
 
     // Set baseline alignment
-    const baselineAlign = baseline === "top" ? p.TOP : baseline === "bottom" ? p.BOTTOM : p.CENTER;
-    p.textAlign(p.LEFT, baselineAlign);
+    const baselineAlign = baseline === "top" ? "top" : baseline === "bottom" ? "bottom" : "center";
+    g.textAlign("left", baselineAlign);
 
     // Adjust Y position based on baseline
-    let baseY = p.height / 2;
+    let baseY = g.height / 2;
     if (baseline === "top") {
       baseY = fontSize / 2 + 20;
     } else if (baseline === "bottom") {
-      baseY = p.height - fontSize / 2 - 20;
+      baseY = g.height - fontSize / 2 - 20;
     }
 
     const time = t * animSpeed;
@@ -177,8 +175,8 @@ export const typographic: Effect = {
         }
 
         case "scatter": {
-          const noiseX = p.noise(i * noiseScale, time * 0.5) - 0.5;
-          const noiseY = p.noise(i * noiseScale + 100, time * 0.5) - 0.5;
+          const noiseX = g.noise(i * noiseScale, time * 0.5) - 0.5;
+          const noiseY = g.noise(i * noiseScale + 100, time * 0.5) - 0.5;
           x += noiseX * distortAmount * 2;
           y += noiseY * distortAmount * 2;
           break;
@@ -213,24 +211,44 @@ export const typographic: Effect = {
           const morphAmount = Math.sin(morphPhase * Math.PI) * distortAmount;
 
           // Create morphing effect by scaling and rotating
-          p.push();
-          p.translate(x + metric.width / 2, y);
-          p.scale(1 + Math.sin(morphPhase) * 0.3, 1 + Math.cos(morphPhase) * 0.3);
-          p.rotate(Math.sin(time + i * 0.5) * 0.2);
-          p.translate(-metric.width / 2, 0);
-
-          p.fill(ctx.colors.ink, alpha);
-          p.text(char, 0, 0);
-          p.pop();
+          g.push();
+          g.translate(x + metric.width / 2, y);
+          g.scale(1 + Math.sin(morphPhase) * 0.3, 1 + Math.cos(morphPhase) * 0.3);
+          g.rotate(Math.sin(time + i * 0.5) * 0.2);
+          g.translate(-metric.width / 2, 0);
+
+          g.fill(ctx.colors.ink, alpha);
+          g.text(char, 0, 0);
+          g.pop();
           break;
         }
       }
 
       // Normal rendering for all modes except morph
       if (mode !== "morph") {
-        p.fill(ctx.colors.ink, alpha);
-        p.text(char, x, y);
+        g.fill(ctx.colors.ink, alpha);
+        g.text(char, x, y);
       }
     });
   },
+  serialize(_g, ctx) {
+    const state = ctx.data as TypographicState | undefined;
+    if (!state) return null;
+    const snapshot: TypographicState = {
+      ...state,
+      textChars: state.textChars.slice(),
+      textMetrics: state.textMetrics.map((metric) => ({ ...metric })),
+    };
+    return snapshot;
+  },
+  deserialize(_g, ctx, snapshot) {
+    const saved = snapshot as TypographicState | null;
+    if (!saved) return;
+    const state: TypographicState = {
+      ...saved,
+      textChars: saved.textChars.slice(),
+      textMetrics: saved.textMetrics.map((metric) => ({ ...metric })),
+    };
+    ctx.data = state;
+  },
 };
\ No newline at end of file
@@ -0,0 +1,478 @@
+import type p5 from "p5";
+
+import { getEffect } from "@/effects";
+import type { BlendContext, BlendMode, Effect, EffectContext, EffectLayer, Surface } from "@/effects/types";
+import { evaluateLayerParams } from "@/lib/keyframes";
+import { getFrameCount, getLoopPhase } from "@/lib/loop";
+import { createP5Surface } from "@/lib/p5Surface";
+import { createRng, hashSeed } from "@/lib/rng";
+import type { Background } from "@/store/useEditor";
+
+export type CompositionConfig = {
+  width: number;
+  height: number;
+  seed: string;
+  background: Background;
+  invert: boolean;
+  durationSec: number;
+  loopMode: boolean;
+  layers: EffectLayer[];
+  /**
+   * Resolution of the canvas and layer buffers relative to `width`/`height`, for
+   * cheaper previews; effects still draw in full-size coordinates. Defaults to 1.
+   */
+  renderScale?: number;
+};
+
+type LayerState = {
+  layer: EffectLayer;
+  effect: Effect;
+  graphics: p5.Graphics;
+  surface: Surface;
+  /** Extra buffers the effect created through its surface; removed with the layer. */
+  owned: p5.Graphics[];
+  data: Record<string, unknown>;
+};
+
+type Snapshot = {
+  layers: unknown[];
+  /** Estimated memory the snapshot holds; see `estimateBytes`. */
+  bytes: number;
+};
+
+/** Frames between cached simulation snapshots. */
+export const SNAPSHOT_INTERVAL = 30;
+const MAX_SNAPSHOTS = 48;
+/** Memory all snapshots of one compositor may hold together; the oldest make way for new ones. */
+const SNAPSHOT_BYTE_BUDGET = 64 * 1024 * 1024;
+
+/** Rough size of serialized state, counting the typed arrays and pixel data that dominate it. */
+const estimateBytes = (value: unknown, seen = new Set<object>()): number => {
+  if (typeof value === "string") return value.length * 2;
+  if (typeof value !== "object" || value === null) return 8;
+  if (seen.has(value)) return 0;
+  seen.add(value);
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) return value.byteLength;
+  if (typeof ImageData !== "undefined" && value instanceof ImageData) return value.data.byteLength;
+  const items = value instanceof Map ? [...value.keys(), ...value.values()] : Object.values(value);
+  return items.reduce<number>((total, item) => total + estimateBytes(item, seen), 0);
+};
+
+export const computeColors = (background: Background, invert: boolean) => {
+  const basePaper = background === "white" ? 255 : 0;
+  const baseInk = basePaper === 255 ? 0 : 255;
+  if (invert) {
+    return { paper: baseInk, ink: basePaper };
+  }
+  return { paper: basePaper, ink: baseInk };
+};
+
+export const blendModes: { value: BlendMode; label: string }[] = [
+  { value: "normal", label: "Normal" },
+  { value: "multiply", label: "Multiply" },
+  { value: "add", label: "Add" },
+  { value: "subtract", label: "Subtract" },
+  { value: "xor", label: "XOR" },
+  { value: "overlay", label: "Overlay" },
+];
+
+export const isBlendMode = (value: unknown): value is BlendMode =>
+  blendModes.some((mode) => mode.value === value);
+
+export const isLayerVisible = (layer: EffectLayer, layers: EffectLayer[]) => {
+  if (!layer.enabled || layer.muted) return false;
+  const soloActive = layers.some((candidate) => candidate.solo && candidate.enabled);
+  return !soloActive || Boolean(layer.solo);
+};
+
+/**
+ * Returns true when `next` only differs from `current` in compositing properties,
+ * so it can be applied without re-running init.
+ */
+export const sharesSimulation = (current: EffectLayer[], next: EffectLayer[]) =>
+  next.length === current.length &&
+  next.every((layer, index) => {
+    const previous = current[index];
+    return (
+      previous.id === layer.id &&
+      previous.effectId === layer.effectId &&
+      previous.params === layer.params &&
+      previous.keyframes === layer.keyframes
+    );
+  });
+
+// Everything in a config except `renderScale` and compositing-only layer properties feeds the simulation.
+const SIMULATION_KEYS = ["width", "height", "seed", "background", "invert", "durationSec", "loopMode"] as const;
+
+/** Returns true when `next` only changes how `current` is displayed, not what it simulates. */
+const rendersSameSimulation = (current: CompositionConfig, next: CompositionConfig) =>
+  SIMULATION_KEYS.every((key) => current[key] === next[key]) && sharesSimulation(current.layers, next.layers);
+
+// Low enough for thumbnail-sized previews of large canvases.
+const MIN_RENDER_SCALE = 0.01;
+
+export const getRenderScale = (config: CompositionConfig) =>
+  Math.max(MIN_RENDER_SCALE, Math.min(1, config.renderScale ?? 1));
+
+/** Sizes the sketch canvas to the (possibly down-scaled) buffer size of `config`. */
+export function fitCanvas(p: p5, config: CompositionConfig) {
+  const renderScale = getRenderScale(config);
+  const bufferWidth = Math.max(1, Math.round(config.width * renderScale));
+  const bufferHeight = Math.max(1, Math.round(config.height * renderScale));
+  if (p.width !== bufferWidth || p.height !== bufferHeight) {
+    p.resizeCanvas(bufferWidth, bufferHeight);
+  }
+  p.noSmooth();
+  p.pixelDensity(1);
+  // The canvas keeps its full on-screen size; a scaled buffer is upscaled without smoothing.
+  const canvas = (p.drawingContext as CanvasRenderingContext2D).canvas;
+  canvas.style.width = `${config.width}px`;
+  canvas.style.height = `${config.height}px`;
+  canvas.style.imageRendering = renderScale < 1 ? "pixelated" : "";
+}
+
+const blendChannel = (mode: BlendMode, source: number, target: number): number => {
+  switch (mode) {
+    case "multiply":
+      return (source * target) / 255;
+    case "add":
+      return Math.min(255, source + target);
+    case "subtract":
+      return Math.max(0, target - source);
+    case "xor":
+      return source ^ target;
+    case "overlay":
+      return target < 128
+        ? (2 * source * target) / 255
+        : 255 - (2 * (255 - source) * (255 - target)) / 255;
+    case "normal":
+    default:
+      return source;
+  }
+};
+
+/**
+ * Blends `source` over `target` into `out` (which may alias `target`). Source alpha
+ * and layer opacity both scale how far each pixel moves toward the blended value.
+ */
+export function blendPixels(
+  source: Uint8ClampedArray,
+  target: Uint8ClampedArray,
+  out: Uint8ClampedArray,
+  mode: BlendMode,
+  opacity: number,
+) {
+  const amount = Math.max(0, Math.min(1, opacity));
+  for (let i = 0; i < out.length; i += 4) {
+    const alpha = (source[i + 3] / 255) * amount;
+    for (let c = 0; c < 3; c += 1) {
+      const base = target[i + c];
+      const blended = blendChannel(mode, source[i + c], base);
+      out[i + c] = base + (blended - base) * alpha;
+    }
+    out[i + 3] = Math.max(target[i + 3], source[i + 3] * amount);
+  }
+}
+
+/**
+ * Turns paper into transparency for embedding over other backgrounds. Output is
+ * monochrome, so each pixel becomes ink at an alpha proportional to how far it
+ * sits from paper toward ink; grey edges keep their weight.
+ */
+export function keyOutPaper(pixels: Uint8ClampedArray, paper: number, ink: number) {
+  const span = ink - paper;
+  if (span === 0) return;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const luma = (pixels[i] + pixels[i + 1] + pixels[i + 2]) / 3;
+    const coverage = Math.max(0, Math.min(1, (luma - paper) / span));
+    pixels[i] = ink;
+    pixels[i + 1] = ink;
+    pixels[i + 2] = ink;
+    pixels[i + 3] = Math.round(pixels[i + 3] * coverage);
+  }
+}
+
+const getContext2D = (graphics: p5.Graphics) => graphics.drawingContext as CanvasRenderingContext2D;
+
+export function blendLayers({ sourceGraphics, targetGraphics, resultGraphics, blendMode, opacity }: BlendContext) {
+  const width = resultGraphics.width;
+  const height = resultGraphics.height;
+  const source = getContext2D(sourceGraphics).getImageData(0, 0, width, height);
+  const target = getContext2D(targetGraphics).getImageData(0, 0, width, height);
+  blendPixels(source.data, target.data, target.data, blendMode, opacity);
+  getContext2D(resultGraphics).putImageData(target, 0, 0);
+}
+
+/**
+ * Renders a stack of effect layers, each into its own buffer with its own
+ * EffectContext, and composites them bottom-to-top onto the sketch canvas.
+ * Shared by the live preview and export sketches so both produce identical frames.
+ */
+export function createCompositor(p: p5) {
+  let states: LayerState[] = [];
+  let composite: p5.Graphics | null = null;
+  let config: CompositionConfig | null = null;
+  let colors = computeColors("white", false);
+  let seedHash = hashSeed("");
+  // Per-layer simulation state keyed by the frame it is ready to render.
+  const snapshots = new Map<number, Snapshot>();
+  let snapshotFps = 0;
+  let snapshotsEnabled = true;
+  let renderScale = 1;
+
+  const createBuffer = (width: number, height: number) => {
+    const graphics = p.createGraphics(width, height);
+    graphics.pixelDensity(1);
+    graphics.noSmooth();
+    return graphics;
+  };
+
+  const disposeLayers = () => {
+    states.forEach((state) => {
+      state.graphics.remove();
+      state.owned.forEach((graphics) => graphics.remove());
+    });
+    states = [];
+  };
+
+  const dispose = () => {
+    disposeLayers();
+    composite?.remove();
+    composite = null;
+    snapshots.clear();
+  };
+
+  const initLayer = (layer: EffectLayer, nextConfig: CompositionConfig): LayerState => {
+    const effect = getEffect(layer.effectId);
+    const graphics = createBuffer(p.width, p.height);
+    const owned: p5.Graphics[] = [];
+    const size = { width: nextConfig.width, height: nextConfig.height };
+    const surface = createP5Surface(p, graphics, { owned, size });
+    graphics.background(colors.paper);
+    const initContext: EffectContext = {
+      rng: createRng(`${nextConfig.seed}-init`),
+      data: {},
+      seedHash,
+      colors,
+      phase: 0,
+      durationSec: nextConfig.durationSec,
+      loopMode: nextConfig.loopMode,
+    };
+    // Styles set in init (rect mode, text alignment) carry into every frame, so only the transform is undone.
+    graphics.scale(renderScale);
+    effect.init(surface, initContext, evaluateLayerParams(effect, layer, 0));
+    graphics.resetMatrix();
+    return { layer, effect, graphics, surface, owned, data: initContext.data };
+  };
+
+  const reset = (nextConfig: CompositionConfig) => {
+    // Snapshots hold full-size simulation state, so they survive a new render scale.
+    const keptSnapshots = config && rendersSameSimulation(config, nextConfig) ? new Map(snapshots) : null;
+    dispose();
+    config = nextConfig;
+    colors = computeColors(nextConfig.background, nextConfig.invert);
+    seedHash = hashSeed(nextConfig.seed);
+    renderScale = getRenderScale(nextConfig);
+    fitCanvas(p, nextConfig);
+    p.background(colors.paper);
+    composite = createBuffer(p.width, p.height);
+    snapshotsEnabled = true;
+    keptSnapshots?.forEach((snapshot, frame) => snapshots.set(frame, snapshot));
+    states = nextConfig.layers.map((layer) => initLayer(layer, nextConfig));
+  };
+
+  const createContext = (state: LayerState, rngKey: string, phase = 0): EffectContext => ({
+    rng: createRng(`${config!.seed}-${rngKey}`),
+    data: state.data,
+    seedHash,
+    colors,
+    phase,
+    durationSec: config!.durationSec,
+    loopMode: config!.loopMode,
+  });
+
+  const captureSnapshot = (frameIndex: number) => {
+    if (!snapshotsEnabled || snapshots.has(frameIndex)) return;
+    try {
+      const layerSnapshots = states.map((state) =>
+        state.effect.serialize
+          ? state.effect.serialize(state.surface, createContext(state, "init"))
+          : structuredClone(state.data),
+      );
+      const bytes = estimateBytes(layerSnapshots);
+      // A snapshot bigger than the whole budget isn't cached; seeks replay past it instead.
+      if (bytes > SNAPSHOT_BYTE_BUDGET) return;
+      let totalBytes = bytes;
+      snapshots.forEach((snapshot) => {
+        totalBytes += snapshot.bytes;
+      });
+      while (snapshots.size >= MAX_SNAPSHOTS || totalBytes > SNAPSHOT_BYTE_BUDGET) {
+        const oldest = snapshots.keys().next().value!;
+        totalBytes -= snapshots.get(oldest)!.bytes;
+        snapshots.delete(oldest);
+      }
+      snapshots.set(frameIndex, { layers: layerSnapshots, bytes });
+    } catch (error) {
+      // State that can't be cloned just means seeks replay from frame 0.
+      console.warn("Disabling simulation snapshots:", error);
+      snapshotsEnabled = false;
+      snapshots.clear();
+    }
+  };
+
+  const restoreSnapshot = (layerSnapshots: unknown[]) => {
+    states.forEach((state, index) => {
+      if (state.effect.deserialize) {
+        const ctx = createContext(state, "init");
+        state.effect.deserialize(state.surface, ctx, layerSnapshots[index]);
+        state.data = ctx.data;
+      } else {
+        state.data = structuredClone(layerSnapshots[index]) as Record<string, unknown>;
+      }
+    });
+  };
+
+  /** Snapshots only hold for the frame rate they were simulated at. */
+  const syncSnapshotFps = (fps: number) => {
+    if (fps !== snapshotFps) {
+      snapshots.clear();
+      snapshotFps = fps;
+    }
+  };
+
+  const canUpdateInPlace = (layers: EffectLayer[]) =>
+    sharesSimulation(
+      states.map((state) => state.layer),
+      layers,
+    );
+
+  const updateLayers = (layers: EffectLayer[]) => {
+    states.forEach((state, index) => {
+      state.layer = layers[index];
+    });
+    if (config) {
+      config = { ...config, layers };
+    }
+  };
+
+  /**
+   * Advances every layer's simulation by one frame into its own buffer. Hidden
+   * layers step too, so toggling visibility never changes what frame N looks like.
+   */
+  const stepLayers = (frameIndex: number, fps: number) => {
+    if (!config) return;
+    syncSnapshotFps(fps);
+    const time = frameIndex / Math.max(1, fps);
+    const totalFrames = getFrameCount(fps, config.durationSec);
+    const phase = getLoopPhase(frameIndex, totalFrames);
+    // In loop mode per-frame randomness repeats with the loop, so frame `totalFrames` matches frame 0.
+    const rngFrame = config.loopMode ? frameIndex % totalFrames : frameIndex;
+    states.forEach((state) => {
+      const ctx = createContext(state, `frame-${rngFrame}`, phase);
+      const params = evaluateLayerParams(state.effect, state.layer, frameIndex);
+      state.graphics.push();
+      state.graphics.background(colors.paper);
+      if (renderScale !== 1) state.graphics.scale(renderScale);
+      state.effect.update(state.surface, ctx, time, frameIndex, params);
+      state.effect.render(state.surface, ctx, time, frameIndex, params);
+      state.graphics.pop();
+      state.data = ctx.data;
+    });
+    if ((frameIndex + 1) % SNAPSHOT_INTERVAL === 0) {
+      captureSnapshot(frameIndex + 1);
+    }
+  };
+
+  /**
+   * Restores the nearest cached snapshot at or before `frameIndex` (or re-initializes
+   * the stack) and replays the frames in between, so the next `renderFrame(frameIndex)`
+   * matches what an export produces for that frame.
+   */
+  const seek = (frameIndex: number, fps: number) => {
+    if (!config) return;
+    syncSnapshotFps(fps);
+    let from = 0;
+    snapshots.forEach((_snapshot, frame) => {
+      if (frame <= frameIndex && frame > from) from = frame;
+    });
+
+    if (from > 0) {
+      restoreSnapshot(snapshots.get(from)!.layers);
+    } else {
+      const current = config;
+      disposeLayers();
+      states = current.layers.map((layer) => initLayer(layer, current));
+    }
+    for (let frame = from; frame < frameIndex; frame += 1) {
+      stepLayers(frame, fps);
+    }
+  };
+
+  /** Composites the layer buffers as last rendered, without advancing them. */
+  const redraw = () => {
+    if (!composite) return;
+    const layers = states.map((state) => state.layer);
+    const visible = states.filter((state) => isLayerVisible(state.layer, layers));
+
+    p.background(colors.paper);
+    if (visible.length === 0) return;
+
+    const [base, ...rest] = visible;
+    if (rest.length === 0 && base.layer.opacity >= 1) {
+      p.image(base.graphics, 0, 0);
+      return;
+    }
+
+    // The bottom layer always composites with normal blending onto paper.
+    composite.background(colors.paper);
+    blendLayers({
+      sourceGraphics: base.graphics,
+      targetGraphics: composite,
+      resultGraphics: composite,
+      blendMode: "normal",
+      opacity: base.layer.opacity,
+    });
+    rest.forEach((state) => {
+      blendLayers({
+        sourceGraphics: state.graphics,
+        targetGraphics: composite!,
+        resultGraphics: composite!,
+        blendMode: state.layer.blendMode,
+        opacity: state.layer.opacity,
+      });
+    });
+    p.image(composite, 0, 0);
+  };
+
+  const renderFrame = (frameIndex: number, fps: number) => {
+    if (!config || !composite) return;
+    stepLayers(frameIndex, fps);
+    redraw();
+  };
+
+  /** Keys paper out of the canvas as last drawn; see `keyOutPaper`. */
+  const makePaperTransparent = () => {
+    const context = p.drawingContext as CanvasRenderingContext2D;
+    const image = context.getImageData(0, 0, p.width, p.height);
+    keyOutPaper(image.data, colors.paper, colors.ink);
+    context.putImageData(image, 0, 0);
+  };
+
+  /** Frames render synchronously here; the worker-backed compositor reports frames still in flight. */
+  const isBusy = () => false;
+
+  return {
+    reset,
+    canUpdateInPlace,
+    updateLayers,
+    seek,
+    stepLayers,
+    renderFrame,
+    redraw,
+    makePaperTransparent,
+    isBusy,
+    dispose,
+  };
+}
+
+export type Compositor = ReturnType<typeof createCompositor>;
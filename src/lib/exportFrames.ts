@@ -0,0 +1,220 @@
+import { createExportSketch, type ExportConfig, type ExportSketch } from "@/components/CanvasHost";
+import type { CompositionConfig } from "@/lib/compositor";
+import { getFrameCount } from "@/lib/loop";
+import {
+  createRenderWorker,
+  drawFrameBitmap,
+  RenderCommandError,
+  supportsOffscreenRendering,
+} from "@/lib/offscreenRenderer";
+import { getEditorSnapshot, useEditorStore, type EditorSnapshot } from "@/store/useEditor";
+
+export type ExportProgress = {
+  frame: number;
+  totalFrames: number;
+};
+
+export type ExportOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+};
+
+export class ExportCancelledError extends Error {
+  constructor() {
+    super("Export cancelled");
+    this.name = "ExportCancelledError";
+  }
+}
+
+export const getTotalFrames = (config: Pick<ExportConfig, "fps" | "durationSec">) =>
+  getFrameCount(config.fps, config.durationSec);
+
+export function createExportConfig(snapshot: EditorSnapshot): ExportConfig {
+  const active = snapshot.layers.find((layer) => layer.id === snapshot.activeLayerId) ?? snapshot.layers[0];
+  return {
+    width: snapshot.width,
+    height: snapshot.height,
+    fps: snapshot.fps,
+    durationSec: snapshot.durationSec,
+    effectId: active.effectId,
+    params: { ...active.params },
+    layers: snapshot.layers,
+    seed: snapshot.seed,
+    background: snapshot.background,
+    invert: snapshot.invert,
+    loopMode: snapshot.loopMode,
+  };
+}
+
+export function getExportConfig(): ExportConfig {
+  return createExportConfig(getEditorSnapshot(useEditorStore.getState()));
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new ExportCancelledError();
+  }
+}
+
+// Yield to the event loop so progress updates paint and cancel clicks register.
+export const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+export function getSketchCanvas(sketch: ExportSketch): HTMLCanvasElement {
+  const context = sketch.drawingContext as CanvasRenderingContext2D;
+  return context.canvas;
+}
+
+export function readFramePixels(canvas: HTMLCanvasElement, config: ExportConfig): Uint8ClampedArray {
+  const context = canvas.getContext("2d") as CanvasRenderingContext2D;
+  return context.getImageData(0, 0, config.width, config.height).data;
+}
+
+type FrameSource = {
+  /** Renders `frameIndex` and returns the canvas holding it. */
+  render: (frameIndex: number) => Promise<HTMLCanvasElement>;
+  dispose: () => void;
+};
+
+const toCompositionConfig = (config: ExportConfig): CompositionConfig => ({
+  width: config.width,
+  height: config.height,
+  seed: config.seed,
+  background: config.background,
+  invert: config.invert,
+  durationSec: config.durationSec,
+  loopMode: config.loopMode,
+  layers: config.layers,
+  renderScale: config.renderScale,
+});
+
+/**
+ * Renders in a worker and copies each transferred frame into a canvas in
+ * `container`. Resolves to null when no worker can be started. If the worker
+ * dies partway, the remaining frames render in a hidden sketch that seeks to the
+ * failed frame, and are copied into the same canvas.
+ */
+async function createWorkerFrameSource(config: ExportConfig, container: HTMLElement): Promise<FrameSource | null> {
+  if (!supportsOffscreenRendering()) return null;
+  const worker = await createRenderWorker().catch((error: Error) => {
+    console.warn("Exporting on the main thread:", error);
+    return null;
+  });
+  if (!worker) return null;
+
+  const fps = Math.max(1, config.fps);
+  const canvas = document.createElement("canvas");
+  canvas.width = config.width;
+  canvas.height = config.height;
+  container.appendChild(canvas);
+  const context = canvas.getContext("2d") as CanvasRenderingContext2D;
+  try {
+    await worker.run([{ type: "reset", config: toCompositionConfig(config) }], false);
+  } catch (error) {
+    worker.dispose();
+    throw error;
+  }
+
+  let fallback: ExportSketch | null = null;
+
+  const renderOnMainThread = async (frameIndex: number) => {
+    if (!fallback) {
+      fallback = await createExportSketch(config, container);
+      fallback.seek(frameIndex);
+    }
+    fallback.renderFrame(frameIndex);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(getSketchCanvas(fallback), 0, 0, canvas.width, canvas.height);
+    return canvas;
+  };
+
+  return {
+    render: async (frameIndex) => {
+      if (!fallback) {
+        try {
+          const { bitmap } = await worker.run([{ type: "renderFrame", frameIndex, fps }], true);
+          if (bitmap) drawFrameBitmap(context, bitmap);
+          return canvas;
+        } catch (error) {
+          // An effect that throws would throw on the main thread too.
+          if (error instanceof RenderCommandError) throw error;
+          console.warn("Finishing the export on the main thread:", error);
+          worker.dispose();
+        }
+      }
+      return renderOnMainThread(frameIndex);
+    },
+    dispose: () => {
+      worker.dispose();
+      fallback?.dispose();
+    },
+  };
+}
+
+async function createSketchFrameSource(config: ExportConfig, container: HTMLElement): Promise<FrameSource> {
+  const sketch = await createExportSketch(config, container);
+  return {
+    render: async (frameIndex) => {
+      sketch.renderFrame(frameIndex);
+      return getSketchCanvas(sketch);
+    },
+    dispose: sketch.dispose,
+  };
+}
+
+/**
+ * Renders every frame of the loop off-screen, in order, handing each one to `onFrame`
+ * while the canvas still holds that frame's pixels. Effects run in a worker where
+ * OffscreenCanvas is available and in a hidden sketch otherwise. `frameCount`
+ * defaults to the loop length.
+ */
+export async function renderExportFrames(
+  config: ExportConfig,
+  onFrame: (canvas: HTMLCanvasElement, frameIndex: number, totalFrames: number) => void | Promise<void>,
+  options: ExportOptions = {},
+  frameCount = getTotalFrames(config),
+): Promise<void> {
+  const { signal, onProgress } = options;
+  const totalFrames = frameCount;
+  const container = document.createElement("div");
+  container.style.position = "fixed";
+  container.style.left = "-100000px";
+  container.style.top = "0";
+  container.style.visibility = "hidden";
+  container.setAttribute("aria-hidden", "true");
+  document.body.appendChild(container);
+
+  let source: FrameSource | null = null;
+  try {
+    throwIfCancelled(signal);
+    source =
+      (await createWorkerFrameSource(config, container)) ?? (await createSketchFrameSource(config, container));
+
+    for (let frameIndex = 0; frameIndex < totalFrames; frameIndex += 1) {
+      throwIfCancelled(signal);
+      const canvas = await source.render(frameIndex);
+      await onFrame(canvas, frameIndex, totalFrames);
+      onProgress?.({ frame: frameIndex + 1, totalFrames });
+      await nextTick();
+    }
+    throwIfCancelled(signal);
+  } finally {
+    source?.dispose();
+    container.remove();
+  }
+}
+
+export function buildExportFilename(config: ExportConfig, extension: string): string {
+  const seed = config.seed.replace(/[^A-Z0-9-]/gi, "");
+  return `${config.effectId}-${seed || "export"}-${config.width}x${config.height}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,49 @@
+import { GIFEncoder, applyPalette } from "gifenc";
+
+import type { ExportConfig } from "@/components/CanvasHost";
+import { readFramePixels, renderExportFrames, type ExportOptions } from "@/lib/exportFrames";
+
+export type GifPaletteSize = 2 | 4 | 16;
+
+export type GifExportOptions = ExportOptions & {
+  paletteSize?: GifPaletteSize;
+};
+
+/**
+ * Evenly spaced grey ramp between paper and ink. A fixed palette keeps every frame
+ * mapped to the same colours, so the loop never flickers between palettes.
+ */
+export function buildGrayscalePalette(levels: number): number[][] {
+  const count = Math.max(2, Math.round(levels));
+  return Array.from({ length: count }, (_, index) => {
+    const value = Math.round((index / (count - 1)) * 255);
+    return [value, value, value];
+  });
+}
+
+// GIF delays are stored in hundredths of a second; gifenc takes milliseconds and rounds.
+export const getGifFrameDelay = (fps: number) => Math.max(20, Math.round(100 / Math.max(1, fps)) * 10);
+
+export async function exportGif(config: ExportConfig, options: GifExportOptions = {}): Promise<Blob> {
+  const palette = buildGrayscalePalette(options.paletteSize ?? 2);
+  const delay = getGifFrameDelay(config.fps);
+  const encoder = GIFEncoder();
+
+  await renderExportFrames(
+    config,
+    (canvas) => {
+      const pixels = readFramePixels(canvas, config);
+      const indexed = applyPalette(pixels, palette);
+      encoder.writeFrame(indexed, config.width, config.height, {
+        palette,
+        delay,
+        // 0 = loop forever; gifenc only writes the loop extension with the first frame.
+        repeat: 0,
+      });
+    },
+    options,
+  );
+
+  encoder.finish();
+  return new Blob([encoder.bytes() as BlobPart], { type: "image/gif" });
+}
@@ -0,0 +1,38 @@
+/** Minimal promise wrappers over the IndexedDB request/transaction events. */
+
+export function isIndexedDbAvailable() {
+  return typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+/** Resolves once every write in the transaction is committed. */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void,
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      // The version-change transaction lets upgrades rewrite existing records.
+      upgrade(request.result, event.oldVersion, request.transaction as IDBTransaction);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error(`Failed to open database "${name}"`));
+    request.onblocked = () => reject(new Error(`Database "${name}" is blocked by another tab`));
+  });
+}
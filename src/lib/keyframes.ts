@@ -0,0 +1,199 @@
+import type { Effect, EffectLayer, Keyframe, KeyframeTracks, ParamDef, ParamValue, ParamValues } from "@/effects/types";
+import { applyEasing, easingOptions, type EasingType } from "@/lib/easing";
+
+// Select and boolean keys hold their value until the next keyframe.
+const KEYFRAMEABLE_TYPES: ParamDef["type"][] = ["number", "int", "vector2", "range", "color", "curve", "select", "boolean"];
+
+export const isKeyframeable = (def: ParamDef) => KEYFRAMEABLE_TYPES.includes(def.type);
+
+export const isEasingType = (value: unknown): value is EasingType =>
+  easingOptions.some((option) => option.value === value);
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+const isPoint = (value: ParamValue): value is { x: number; y: number } =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && "x" in value;
+
+const isRange = (value: ParamValue): value is { min: number; max: number } =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && "min" in value;
+
+const isCurve = (value: ParamValue): value is { x: number; y: number }[] =>
+  Array.isArray(value) && value.length >= 2;
+
+/** Piecewise-linear height of a curve at `x`; points are sorted by x. */
+const sampleCurve = (points: { x: number; y: number }[], x: number) => {
+  if (x <= points[0].x) return points[0].y;
+  const nextIndex = points.findIndex((point) => point.x >= x);
+  if (nextIndex === -1) return points[points.length - 1].y;
+  const from = points[nextIndex - 1];
+  const to = points[nextIndex];
+  return to.x === from.x ? to.y : lerp(from.y, to.y, (x - from.x) / (to.x - from.x));
+};
+
+/**
+ * Blends two curves point by point. Curves with different point counts are
+ * both resampled at the union of their x positions first.
+ */
+const interpolateCurve = (from: { x: number; y: number }[], to: { x: number; y: number }[], t: number) => {
+  const clampY = (y: number) => Math.max(0, Math.min(1, y));
+  if (from.length === to.length) {
+    return from.map((point, index) => ({ x: lerp(point.x, to[index].x, t), y: clampY(lerp(point.y, to[index].y, t)) }));
+  }
+  const xs = Array.from(new Set([...from, ...to].map((point) => point.x))).sort((a, b) => a - b);
+  return xs.map((x) => ({ x, y: clampY(lerp(sampleCurve(from, x), sampleCurve(to, x), t)) }));
+};
+
+const parseHexColor = (value: ParamValue): [number, number, number] | null => {
+  if (typeof value !== "string") return null;
+  const match = /^#?([0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) return null;
+  const int = parseInt(match[1], 16);
+  return [(int >> 16) & 255, (int >> 8) & 255, int & 255];
+};
+
+const toHexColor = (channels: number[]) =>
+  `#${channels.map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")}`;
+
+const interpolateColor = (from: ParamValue, to: ParamValue, t: number): ParamValue => {
+  const fromRgb = parseHexColor(from);
+  const toRgb = parseHexColor(to);
+  if (fromRgb && toRgb) {
+    return toHexColor(fromRgb.map((channel, index) => lerp(channel, toRgb[index], t)));
+  }
+  // Monochrome colors are stored as 0-255 grey levels.
+  const fromGray = Number(from);
+  const toGray = Number(to);
+  if (Number.isFinite(fromGray) && Number.isFinite(toGray)) {
+    return String(Math.round(lerp(fromGray, toGray, t)));
+  }
+  return t < 1 ? from : to;
+};
+
+/**
+ * Interpolates between two values of the same param. `t` is already eased and may
+ * overshoot 0..1 for back/elastic easings. Values that can't be blended hold `from`.
+ */
+export function interpolateParamValue(def: ParamDef, from: ParamValue, to: ParamValue, t: number): ParamValue {
+  switch (def.type) {
+    case "number":
+      return lerp(Number(from), Number(to), t);
+    case "int":
+      return Math.round(lerp(Number(from), Number(to), t));
+    case "vector2":
+      if (isPoint(from) && isPoint(to)) {
+        return { x: lerp(from.x, to.x, t), y: lerp(from.y, to.y, t) };
+      }
+      break;
+    case "range":
+      if (isRange(from) && isRange(to)) {
+        return { min: lerp(from.min, to.min, t), max: lerp(from.max, to.max, t) };
+      }
+      break;
+    case "color":
+      return interpolateColor(from, to, t);
+    case "curve":
+      if (isCurve(from) && isCurve(to)) {
+        return interpolateCurve(from, to, t);
+      }
+      break;
+    default:
+      break;
+  }
+  return t < 1 ? from : to;
+}
+
+/** Value of a track at `frame`; frames outside the keyed span hold the nearest keyframe. */
+export function evaluateTrack(def: ParamDef, track: Keyframe[], frame: number): ParamValue | undefined {
+  if (track.length === 0) return undefined;
+  if (frame <= track[0].frame) return track[0].value;
+  const last = track[track.length - 1];
+  if (frame >= last.frame) return last.value;
+
+  const nextIndex = track.findIndex((keyframe) => keyframe.frame > frame);
+  const from = track[nextIndex - 1];
+  const to = track[nextIndex];
+  const progress = (frame - from.frame) / (to.frame - from.frame);
+  return interpolateParamValue(def, from.value, to.value, applyEasing(from.easing, progress));
+}
+
+/**
+ * Params a layer renders with at `frame`. Returns `layer.params` itself when no
+ * track applies, so unkeyed layers keep a stable params object.
+ */
+export function evaluateLayerParams(effect: Effect, layer: EffectLayer, frame: number): ParamValues {
+  const tracks = layer.keyframes;
+  if (!tracks) return layer.params;
+
+  let evaluated: ParamValues | null = null;
+  effect.params.forEach((def) => {
+    const track = tracks[def.key];
+    if (!track || track.length === 0 || !isKeyframeable(def)) return;
+    const value = evaluateTrack(def, track, frame);
+    if (value === undefined) return;
+    evaluated ??= { ...layer.params };
+    evaluated[def.key] = value;
+  });
+  return evaluated ?? layer.params;
+}
+
+export const findKeyframe = (track: Keyframe[] | undefined, frame: number) =>
+  track?.find((keyframe) => keyframe.frame === frame);
+
+/** Keyframe whose easing shapes the segment `frame` falls in. */
+export const findSegmentKeyframe = (track: Keyframe[] | undefined, frame: number) =>
+  track?.filter((keyframe) => keyframe.frame <= frame).pop() ?? track?.[0];
+
+/** Sets the value at `frame`, keeping an existing keyframe's easing. */
+export function upsertKeyframe(
+  track: Keyframe[] | undefined,
+  frame: number,
+  value: ParamValue,
+  easing: EasingType = "linear",
+): Keyframe[] {
+  const existing = findKeyframe(track, frame);
+  const others = (track ?? []).filter((keyframe) => keyframe.frame !== frame);
+  return [...others, { frame, value, easing: existing?.easing ?? easing }].sort((a, b) => a.frame - b.frame);
+}
+
+/** Sets the value of the keyframe closest to `frame` (the earlier one on a tie), keeping every frame and easing. */
+export function setNearestKeyframeValue(track: Keyframe[], frame: number, value: ParamValue): Keyframe[] {
+  if (track.length === 0) return track;
+  const nearest = track.reduce((best, keyframe) =>
+    Math.abs(keyframe.frame - frame) < Math.abs(best.frame - frame) ? keyframe : best,
+  );
+  return track.map((keyframe) => (keyframe === nearest ? { ...keyframe, value } : keyframe));
+}
+
+export const removeKeyframe = (track: Keyframe[] | undefined, frame: number): Keyframe[] =>
+  (track ?? []).filter((keyframe) => keyframe.frame !== frame);
+
+/** Returns `tracks` with `key` replaced, dropping empty tracks and empty records. */
+export function withTrack(tracks: KeyframeTracks | undefined, key: string, track: Keyframe[]): KeyframeTracks | undefined {
+  const next = { ...tracks };
+  if (track.length > 0) {
+    next[key] = track;
+  } else {
+    delete next[key];
+  }
+  return Object.keys(next).length > 0 ? next : undefined;
+}
+
+/** Drops tracks for unknown or non-keyframeable params and malformed keyframes. */
+export function sanitizeKeyframes(raw: unknown, effect: Effect): KeyframeTracks | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  let tracks: KeyframeTracks | undefined;
+  effect.params.filter(isKeyframeable).forEach((def) => {
+    const rawTrack = (raw as Record<string, unknown>)[def.key];
+    if (!Array.isArray(rawTrack)) return;
+    const track = rawTrack
+      .filter((item): item is Partial<Keyframe> => Boolean(item) && typeof item === "object")
+      .filter((item) => Number.isFinite(item.frame) && Number(item.frame) >= 0 && item.value !== undefined)
+      .reduce<Keyframe[]>(
+        (result, item) =>
+          upsertKeyframe(result, Math.round(Number(item.frame)), item.value as ParamValue, isEasingType(item.easing) ? item.easing : "linear"),
+        [],
+      );
+    tracks = withTrack(tracks, def.key, track);
+  });
+  return tracks;
+}
@@ -0,0 +1,52 @@
+import type { EffectContext } from "@/effects/types";
+
+const TAU = Math.PI * 2;
+
+export const getFrameCount = (fps: number, durationSec: number) =>
+  Math.max(1, Math.round(durationSec * Math.max(1, fps)));
+
+/** Normalized loop position; frame `totalFrames` maps to 1, which loop-safe effects treat as 0. */
+export const getLoopPhase = (frameIndex: number, totalFrames: number) => frameIndex / Math.max(1, totalFrames);
+
+/**
+ * Whole number of cycles closest to `cyclesPerSecond` over the loop. Anything that
+ * moves keeps moving: a slow rate snaps to one cycle instead of standing still.
+ */
+export function getLoopCycles(cyclesPerSecond: number, durationSec: number): number {
+  const raw = cyclesPerSecond * durationSec;
+  if (raw === 0) return 0;
+  const rounded = Math.round(raw);
+  return rounded === 0 ? Math.sign(raw) : rounded;
+}
+
+/**
+ * Angle for motion written as `t * radiansPerSecond`. In loop mode the rate snaps to
+ * whole turns per loop and is driven by the phase, so the last frame meets the first.
+ */
+export function getLoopAngle(ctx: EffectContext, radiansPerSecond: number, t: number): number {
+  if (!ctx.loopMode) return t * radiansPerSecond;
+  return ctx.phase * TAU * getLoopCycles(radiansPerSecond / TAU, ctx.durationSec);
+}
+
+export type LoopSeamReport = {
+  /** Share of pixels that differ between frame 0 and frame `totalFrames` (0..1). */
+  changedRatio: number;
+  /** Mean absolute channel difference (0..1). */
+  meanDifference: number;
+};
+
+export function compareLoopFrames(first: Uint8ClampedArray, last: Uint8ClampedArray): LoopSeamReport {
+  const pixelCount = Math.max(1, Math.floor(first.length / 4));
+  let changed = 0;
+  let difference = 0;
+  for (let i = 0; i < first.length; i += 4) {
+    const delta =
+      Math.abs(first[i] - last[i]) + Math.abs(first[i + 1] - last[i + 1]) + Math.abs(first[i + 2] - last[i + 2]);
+    if (delta > 0) changed += 1;
+    difference += delta;
+  }
+  return {
+    changedRatio: changed / pixelCount,
+    meanDifference: difference / (pixelCount * 3 * 255),
+  };
+}
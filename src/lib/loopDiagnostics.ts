@@ -0,0 +1,32 @@
+import type { ExportConfig } from "@/components/CanvasHost";
+import { getTotalFrames, readFramePixels, renderExportFrames, type ExportOptions } from "@/lib/exportFrames";
+import { compareLoopFrames, type LoopSeamReport } from "@/lib/loop";
+
+/**
+ * Renders the loop off-screen exactly as an export would, plus one frame past the
+ * end, and compares that frame with frame 0. A seamless loop reports no difference.
+ */
+export async function measureLoopSeam(config: ExportConfig, options: ExportOptions = {}): Promise<LoopSeamReport> {
+  const totalFrames = getTotalFrames(config);
+  let first: Uint8ClampedArray | null = null;
+  let report: LoopSeamReport | null = null;
+
+  await renderExportFrames(
+    config,
+    (canvas, frameIndex) => {
+      if (frameIndex === 0) {
+        first = readFramePixels(canvas, config).slice();
+      }
+      if (frameIndex === totalFrames && first) {
+        report = compareLoopFrames(first, readFramePixels(canvas, config));
+      }
+    },
+    options,
+    totalFrames + 1,
+  );
+
+  if (!report) {
+    throw new Error("Loop diagnostic did not reach the final frame");
+  }
+  return report;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import type { StoredState } from "@/lib/storage";
+import { useEditorStore } from "@/store/useEditor";
+import { useNotificationStore } from "@/store/useNotifications";
+
+import { CURRENT_SCHEMA_VERSION, migrateStoredState } from "./migrations";
+
+const createState = (overrides: Partial<StoredState> = {}): StoredState => ({
+  effectId: "square-drift",
+  params: { gridCols: 12 },
+  width: 320,
+  height: 240,
+  fps: 12,
+  durationSec: 4,
+  seed: "ABC123",
+  background: "white",
+  invert: false,
+  ...overrides,
+});
+
+describe("migrateStoredState", () => {
+  it("stamps unversioned state with the current version and keeps its params", () => {
+    const state = createState();
+
+    expect(migrateStoredState(state)).toEqual({
+      state: { ...state, schemaVersion: CURRENT_SCHEMA_VERSION },
+      changes: [],
+    });
+  });
+
+  it("passes current state through untouched", () => {
+    const state = createState({ schemaVersion: CURRENT_SCHEMA_VERSION });
+
+    expect(migrateStoredState(state)).toEqual({ state, changes: [] });
+    expect(migrateStoredState(state).state).toBe(state);
+  });
+
+  it("leaves state from a newer release alone and says so", () => {
+    const state = createState({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 });
+
+    expect(migrateStoredState(state)).toEqual({
+      state,
+      changes: [`Saved by a newer version (schema ${CURRENT_SCHEMA_VERSION + 1}); some settings may not load`],
+    });
+  });
+});
+
+describe("loading migrated state", () => {
+  it("notifies when the saved state comes from a newer release", () => {
+    useEditorStore.getState().loadFromStoredState(createState({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }));
+
+    expect(useEditorStore.getState().layers[0].params.gridCols).toBe(12);
+    const messages = useNotificationStore.getState().items.map((item) => item.message);
+    expect(messages).toContain(
+      `Updated saved settings: Saved by a newer version (schema ${CURRENT_SCHEMA_VERSION + 1}); some settings may not load`,
+    );
+  });
+});
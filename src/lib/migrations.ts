@@ -0,0 +1,33 @@
+import type { StoredState } from "@/lib/storage";
+
+/**
+ * Version stamped on every saved or shared state. Bump it, and add the matching
+ * step to `migrateStoredState`, whenever an effect renames, retypes or rescales
+ * a param. State without a `schemaVersion` predates versioning and counts as 0.
+ */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+export type MigrationResult = {
+  state: StoredState;
+  /** Human-readable notes about what loading changed or could not carry over. */
+  changes: string[];
+};
+
+/**
+ * Brings state saved by an older release up to `CURRENT_SCHEMA_VERSION`. Runs on
+ * every load path (presets, share URLs, imported files); already-current state
+ * passes through untouched. No param has changed since versioning began, so
+ * older state only gains the version stamp.
+ */
+export function migrateStoredState(state: StoredState): MigrationResult {
+  const fromVersion = typeof state.schemaVersion === "number" ? state.schemaVersion : 0;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    return {
+      state,
+      changes: [`Saved by a newer version (schema ${fromVersion}); some settings may not load`],
+    };
+  }
+  if (fromVersion === CURRENT_SCHEMA_VERSION) return { state, changes: [] };
+
+  return { state: { ...state, schemaVersion: CURRENT_SCHEMA_VERSION }, changes: [] };
+}
@@ -0,0 +1,312 @@
+import type p5 from "p5";
+
+import type { EffectLayer } from "@/effects/types";
+import {
+  computeColors,
+  createCompositor,
+  fitCanvas,
+  sharesSimulation,
+  type CompositionConfig,
+  type Compositor,
+} from "@/lib/compositor";
+
+/** Compositor calls, replayed in order by the worker's own compositor. */
+export type RenderCommand =
+  | { type: "reset"; config: CompositionConfig }
+  | { type: "updateLayers"; layers: EffectLayer[] }
+  | { type: "seek"; frameIndex: number; fps: number }
+  | { type: "stepLayers"; frameIndex: number; fps: number }
+  | { type: "renderFrame"; frameIndex: number; fps: number }
+  | { type: "redraw" }
+  | { type: "makePaperTransparent" };
+
+export type RenderRequest = {
+  id: number;
+  commands: RenderCommand[];
+  /** Transfer the canvas back once the commands have run. */
+  capture: boolean;
+};
+
+export type RenderResponse =
+  | { type: "ready" }
+  | { type: "unavailable"; message: string }
+  | { type: "done"; id: number; bitmap: ImageBitmap | null; frameMs: number | null }
+  | { type: "error"; id: number; message: string };
+
+export type RenderResult = {
+  bitmap: ImageBitmap | null;
+  /** Time the last `renderFrame` in the batch took inside the worker, with the `stepLayers` before it. */
+  frameMs: number | null;
+};
+
+export type RenderWorker = {
+  run: (commands: RenderCommand[], capture: boolean) => Promise<RenderResult>;
+  dispose: () => void;
+};
+
+/** An effect threw while the worker applied a batch; the worker itself keeps running. */
+export class RenderCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RenderCommandError";
+  }
+}
+
+const DRAWING_COMMANDS = new Set<RenderCommand["type"]>(["renderFrame", "redraw", "makePaperTransparent"]);
+
+/** Time the worker gets to load p5 and set up before rendering moves to the main thread. */
+const BOOT_TIMEOUT_MS = 10_000;
+/** Time a batch gets before the worker counts as hung, on top of the allowance for the frames it runs. */
+const REQUEST_TIMEOUT_MS = 20_000;
+/** Allowance per frame a batch may simulate; a seek can replay every frame up to its target. */
+const FRAME_TIMEOUT_MS = 250;
+
+const getRequestTimeout = (commands: RenderCommand[]) => {
+  const frames = commands.reduce((total, command) => {
+    if (command.type === "seek") return total + command.frameIndex + 1;
+    if (command.type === "stepLayers" || command.type === "renderFrame") return total + 1;
+    return total;
+  }, 0);
+  return REQUEST_TIMEOUT_MS + frames * FRAME_TIMEOUT_MS;
+};
+
+// Set once a worker fails to boot, so later previews and exports go straight to the main thread.
+let unavailable = false;
+
+export const supportsOffscreenRendering = () =>
+  !unavailable &&
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof OffscreenCanvas.prototype.transferToImageBitmap === "function";
+
+/**
+ * Starts a render worker and resolves once its p5 instance is set up. A worker that
+ * doesn't boot or answer a request in time is terminated and fails like a crashed one.
+ */
+export function createRenderWorker(): Promise<RenderWorker> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./renderWorker.ts", import.meta.url), { type: "module" });
+    type PendingRequest = {
+      resolve: (result: RenderResult) => void;
+      reject: (error: Error) => void;
+      timer: ReturnType<typeof setTimeout>;
+    };
+    const pending = new Map<number, PendingRequest>();
+    let nextId = 0;
+    let ready = false;
+
+    const rejectPending = (error: Error) => {
+      pending.forEach((request) => {
+        clearTimeout(request.timer);
+        request.reject(error);
+      });
+      pending.clear();
+    };
+
+    const fail = (error: Error) => {
+      clearTimeout(bootTimer);
+      if (!ready) {
+        unavailable = true;
+        reject(error);
+      }
+      rejectPending(error);
+      worker.terminate();
+    };
+
+    const bootTimer = setTimeout(() => fail(new Error("Render worker did not start in time")), BOOT_TIMEOUT_MS);
+
+    const settle = (id: number) => {
+      const request = pending.get(id);
+      if (request) clearTimeout(request.timer);
+      pending.delete(id);
+      return request;
+    };
+
+    const run = (commands: RenderCommand[], capture: boolean) =>
+      new Promise<RenderResult>((resolveRun, rejectRun) => {
+        nextId += 1;
+        const timer = setTimeout(() => fail(new Error("Render worker stopped responding")), getRequestTimeout(commands));
+        pending.set(nextId, { resolve: resolveRun, reject: rejectRun, timer });
+        const request: RenderRequest = { id: nextId, commands, capture };
+        worker.postMessage(request);
+      });
+
+    const dispose = () => {
+      clearTimeout(bootTimer);
+      rejectPending(new Error("Render worker disposed"));
+      worker.terminate();
+    };
+
+    worker.addEventListener("message", (event: MessageEvent<RenderResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "ready":
+          clearTimeout(bootTimer);
+          ready = true;
+          resolve({ run, dispose });
+          break;
+        case "unavailable":
+          fail(new Error(message.message));
+          break;
+        case "done":
+          settle(message.id)?.resolve({ bitmap: message.bitmap, frameMs: message.frameMs });
+          break;
+        case "error":
+          settle(message.id)?.reject(new RenderCommandError(message.message));
+          break;
+      }
+    });
+    worker.addEventListener("error", (event) => {
+      event.preventDefault();
+      fail(new Error(event.message || "Render worker failed to load"));
+    });
+  });
+}
+
+/** Paints a frame transferred from the worker over the whole canvas. */
+export function drawFrameBitmap(context: CanvasRenderingContext2D, bitmap: ImageBitmap) {
+  context.save();
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+  context.drawImage(bitmap, 0, 0);
+  context.restore();
+  bitmap.close();
+}
+
+type OffscreenCompositorOptions = {
+  /** Worker-side duration of each rendered frame, for auto-scaling. */
+  onFrameTime?: (frameMs: number) => void;
+  /** An effect threw in the worker; `failedReset` is set when it happened while initializing. */
+  onRenderError?: (error: RenderCommandError, failedReset: boolean) => void;
+  /** The worker failed; from here on frames render on the main thread, starting with the next reset. */
+  onFallback?: (error: Error) => void;
+};
+
+/**
+ * A compositor with the same interface as `createCompositor`, whose effects run
+ * in a worker. Calls made in one task are posted together and the resulting frame
+ * is drawn onto `p`'s canvas when it comes back. `isBusy` stays true meanwhile so
+ * callers don't queue frames faster than they are shown.
+ */
+export function createOffscreenCompositor(p: p5, options: OffscreenCompositorOptions = {}): Compositor {
+  const queue: RenderCommand[] = [];
+  let flushScheduled = false;
+  let inFlight = 0;
+  let local: Compositor | null = null;
+  let disposed = false;
+  let layers: EffectLayer[] = [];
+  // Bumped on reset so frames of the previous configuration are dropped.
+  let generation = 0;
+
+  const worker = createRenderWorker();
+
+  const fallBack = (error: Error) => {
+    if (local || disposed) return;
+    local = createCompositor(p);
+    queue.length = 0;
+    void worker.then((created) => created.dispose(), () => undefined);
+    options.onFallback?.(error);
+  };
+
+  const flush = () => {
+    flushScheduled = false;
+    if (local || disposed || queue.length === 0) return;
+    const commands = queue.splice(0);
+    const capture = commands.some((command) => DRAWING_COMMANDS.has(command.type));
+    const batchGeneration = generation;
+    inFlight += 1;
+    worker
+      .then((created) => created.run(commands, capture))
+      .then(({ bitmap, frameMs }) => {
+        if (frameMs !== null) options.onFrameTime?.(frameMs);
+        if (!bitmap) return;
+        if (local || disposed || batchGeneration !== generation) {
+          bitmap.close();
+          return;
+        }
+        drawFrameBitmap(p.drawingContext as CanvasRenderingContext2D, bitmap);
+      })
+      .catch((error: Error) => {
+        // Only a worker that can't be reached moves the preview to the main thread.
+        if (!(error instanceof RenderCommandError)) return fallBack(error);
+        if (local || disposed || batchGeneration !== generation) return;
+        options.onRenderError?.(error, commands.some((command) => command.type === "reset"));
+      })
+      .finally(() => {
+        inFlight -= 1;
+      });
+  };
+
+  const send = (command: RenderCommand) => {
+    queue.push(command);
+    if (flushScheduled) return;
+    flushScheduled = true;
+    queueMicrotask(flush);
+  };
+
+  const reset = (config: CompositionConfig) => {
+    if (local) return local.reset(config);
+    generation += 1;
+    layers = config.layers;
+    fitCanvas(p, config);
+    p.background(computeColors(config.background, config.invert).paper);
+    send({ type: "reset", config });
+  };
+
+  const canUpdateInPlace = (next: EffectLayer[]) => (local ? local.canUpdateInPlace(next) : sharesSimulation(layers, next));
+
+  const updateLayers = (next: EffectLayer[]) => {
+    if (local) return local.updateLayers(next);
+    layers = next;
+    send({ type: "updateLayers", layers: next });
+  };
+
+  const seek = (frameIndex: number, fps: number) => {
+    if (local) return local.seek(frameIndex, fps);
+    send({ type: "seek", frameIndex, fps });
+  };
+
+  const stepLayers = (frameIndex: number, fps: number) => {
+    if (local) return local.stepLayers(frameIndex, fps);
+    send({ type: "stepLayers", frameIndex, fps });
+  };
+
+  const renderFrame = (frameIndex: number, fps: number) => {
+    if (local) return local.renderFrame(frameIndex, fps);
+    send({ type: "renderFrame", frameIndex, fps });
+  };
+
+  const redraw = () => {
+    if (local) return local.redraw();
+    send({ type: "redraw" });
+  };
+
+  const makePaperTransparent = () => {
+    if (local) return local.makePaperTransparent();
+    send({ type: "makePaperTransparent" });
+  };
+
+  const isBusy = () => !local && inFlight > 0;
+
+  const dispose = () => {
+    disposed = true;
+    queue.length = 0;
+    local?.dispose();
+    void worker.then((created) => created.dispose(), () => undefined);
+  };
+
+  worker.catch((error: Error) => fallBack(error));
+
+  return {
+    reset,
+    canUpdateInPlace,
+    updateLayers,
+    seek,
+    stepLayers,
+    renderFrame,
+    redraw,
+    makePaperTransparent,
+    isBusy,
+    dispose,
+  };
+}
@@ -0,0 +1,141 @@
+import type p5 from "p5";
+
+import type { Surface, SurfaceBuffer, TextAlign, TextBaseline } from "@/effects/types";
+
+type P5SurfaceOptions = {
+  /** Buffers the effect creates are added here so the owner can remove them with the layer. */
+  owned?: p5.Graphics[];
+  /** Size reported to the effect when `graphics` is a down-scaled buffer. */
+  size?: { width: number; height: number };
+};
+
+// Lets `image()` find the p5 buffer behind a surface the effect passes back in.
+const bufferGraphics = new WeakMap<SurfaceBuffer, p5.Graphics>();
+
+const adaptGraphics = (p: p5, graphics: p5.Graphics, owned: p5.Graphics[], size?: P5SurfaceOptions["size"]) => {
+  const horizontal: Record<TextAlign, p5.HORIZ_ALIGN> = { left: p.LEFT, center: p.CENTER, right: p.RIGHT };
+  const vertical: Record<TextBaseline, p5.VERT_ALIGN> = {
+    top: p.TOP,
+    center: p.CENTER,
+    bottom: p.BOTTOM,
+    baseline: p.BASELINE,
+  };
+
+  const surface: Surface = {
+    get width() {
+      return size?.width ?? graphics.width;
+    },
+    get height() {
+      return size?.height ?? graphics.height;
+    },
+    background: (gray) => {
+      graphics.background(gray);
+    },
+    fill: (gray, alpha) => {
+      if (alpha === undefined) graphics.fill(gray);
+      else graphics.fill(gray, alpha);
+    },
+    noFill: () => {
+      graphics.noFill();
+    },
+    stroke: (gray, alpha) => {
+      if (alpha === undefined) graphics.stroke(gray);
+      else graphics.stroke(gray, alpha);
+    },
+    noStroke: () => {
+      graphics.noStroke();
+    },
+    strokeWeight: (weight) => {
+      graphics.strokeWeight(weight);
+    },
+    rectMode: (mode) => {
+      graphics.rectMode(mode === "center" ? p.CENTER : p.CORNER);
+    },
+    rect: (x, y, width, height) => {
+      graphics.rect(x, y, width, height);
+    },
+    ellipse: (x, y, width, height) => {
+      graphics.ellipse(x, y, width, height);
+    },
+    line: (x1, y1, x2, y2) => {
+      graphics.line(x1, y1, x2, y2);
+    },
+    polygon: (points, closed = true) => {
+      graphics.beginShape();
+      points.forEach((point) => graphics.vertex(point.x, point.y));
+      if (closed) graphics.endShape(p.CLOSE);
+      else graphics.endShape();
+    },
+    textFont: (font) => {
+      graphics.textFont(font);
+    },
+    textSize: (textSize) => {
+      graphics.textSize(textSize);
+    },
+    textAlign: (align, baseline) => {
+      if (baseline === undefined) graphics.textAlign(horizontal[align]);
+      else graphics.textAlign(horizontal[align], vertical[baseline]);
+    },
+    textWidth: (text) => graphics.textWidth(text),
+    text: (text, x, y) => {
+      graphics.text(text, x, y);
+    },
+    push: () => {
+      graphics.push();
+    },
+    pop: () => {
+      graphics.pop();
+    },
+    translate: (x, y) => {
+      graphics.translate(x, y);
+    },
+    rotate: (angle) => {
+      graphics.rotate(angle);
+    },
+    scale: (x, y) => {
+      graphics.scale(x, y ?? x);
+    },
+    // Noise lives on the sketch, so layers sampling the same coordinates agree.
+    noise: (x, y = 0, z = 0) => p.noise(x, y, z),
+    noiseSeed: (seed) => {
+      p.noiseSeed(seed);
+    },
+    createBuffer: (width, height) => {
+      const created = p.createGraphics(width, height);
+      created.pixelDensity(1);
+      created.noSmooth();
+      owned.push(created);
+      return adaptBuffer(p, created, owned);
+    },
+    image: (buffer, x, y) => {
+      const source = bufferGraphics.get(buffer);
+      if (source) graphics.image(source, x, y);
+    },
+  };
+  return surface;
+};
+
+const adaptBuffer = (p: p5, graphics: p5.Graphics, owned: p5.Graphics[]): SurfaceBuffer => {
+  const getContext = () => graphics.drawingContext as CanvasRenderingContext2D;
+  const buffer: SurfaceBuffer = Object.assign(adaptGraphics(p, graphics, owned), {
+    getPixels: () => getContext().getImageData(0, 0, graphics.width, graphics.height),
+    putPixels: (pixels: ImageData) => {
+      getContext().putImageData(pixels, 0, 0);
+    },
+    remove: () => {
+      const index = owned.indexOf(graphics);
+      if (index !== -1) owned.splice(index, 1);
+      graphics.remove();
+    },
+  });
+  bufferGraphics.set(buffer, graphics);
+  return buffer;
+};
+
+/**
+ * Adapts a p5 graphics buffer to the `Surface` effects draw with. Noise comes from
+ * the sketch `p`, and buffers an effect creates are allocated through it.
+ */
+export function createP5Surface(p: p5, graphics: p5.Graphics, options: P5SurfaceOptions = {}): Surface {
+  return adaptGraphics(p, graphics, options.owned ?? [], options.size);
+}
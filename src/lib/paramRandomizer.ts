@@ -0,0 +1,123 @@
+import type { Effect, ParamDef, ParamValue, ParamValues } from "@/effects/types";
+import { createRng, generateSeed } from "@/lib/rng";
+
+export type RandomizeMode = "randomize" | "mutate";
+
+export type RandomizeOptions = {
+  /** Same seed, mode, amount, locks and starting values give the same result. */
+  seed: string;
+  mode: RandomizeMode;
+  /** Mutate strength, 0–1: the share of each param's range a value may move, or the odds a choice flips. */
+  amount: number;
+  /** Param keys left untouched. */
+  locked?: readonly string[];
+};
+
+/** Spread used for vector2 params that declare no bounds. */
+const UNBOUNDED_VECTOR_SPAN = 1;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const snap = (value: number, min: number, step: number | undefined) =>
+  step ? min + Math.round((value - min) / step) * step : value;
+
+const toNumber = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+const toHex = (channel: number) => Math.round(clamp(channel, 0, 255)).toString(16).padStart(2, "0");
+
+/** True for params the randomizer can change; free text is left alone. */
+export const isRandomizable = (def: ParamDef) => def.type !== "text";
+
+/**
+ * Picks a value within `[min, max]`: uniformly when randomizing, or by moving
+ * `current` at most `amount` of the span when mutating.
+ */
+const pickNumber = (
+  random: () => number,
+  options: RandomizeOptions,
+  current: number,
+  min: number,
+  max: number,
+  step?: number,
+) => {
+  const next = options.mode === "mutate"
+    ? current + (random() * 2 - 1) * options.amount * (max - min)
+    : min + random() * (max - min);
+  return Number(clamp(snap(next, min, step), min, max).toFixed(6));
+};
+
+const pickValue = (def: ParamDef, current: ParamValue | undefined, random: () => number, options: RandomizeOptions) => {
+  const mutate = options.mode === "mutate";
+  // Discrete params can't be nudged, so mutate switches them with `amount` odds instead.
+  const switches = () => !mutate || random() < options.amount;
+
+  switch (def.type) {
+    case "number":
+    case "int": {
+      const value = pickNumber(random, options, toNumber(current, def.min), def.min, def.max, def.step);
+      return def.type === "int" ? Math.round(value) : value;
+    }
+    case "boolean":
+      return switches() ? (mutate ? !current : random() < 0.5) : current;
+    case "select": {
+      if (!switches()) return current;
+      const choices = mutate ? def.options.filter((option) => option !== current) : def.options;
+      return choices.length > 0 ? choices[Math.floor(random() * choices.length)] : current;
+    }
+    case "seed":
+      return switches() ? generateSeed(random) : current;
+    case "text":
+      return current;
+    case "color": {
+      if (def.monochrome) {
+        return String(Math.round(pickNumber(random, options, toNumber(Number(current), 0), 0, 255)));
+      }
+      const hex = typeof current === "string" && /^#[0-9a-f]{6}$/i.test(current) ? current : "#000000";
+      const channels = [1, 3, 5].map((offset) => parseInt(hex.slice(offset, offset + 2), 16));
+      return `#${channels.map((channel) => toHex(pickNumber(random, options, channel, 0, 255))).join("")}`;
+    }
+    case "vector2": {
+      const min = def.min ?? -UNBOUNDED_VECTOR_SPAN;
+      const max = def.max ?? UNBOUNDED_VECTOR_SPAN;
+      const vector = typeof current === "object" && current !== null && "x" in current ? current : { x: 0, y: 0 };
+      return {
+        x: pickNumber(random, options, vector.x, min, max),
+        y: pickNumber(random, options, vector.y, min, max),
+      };
+    }
+    case "range": {
+      const range = typeof current === "object" && current !== null && "min" in current
+        ? current
+        : { min: def.min, max: def.max };
+      const a = pickNumber(random, options, range.min, def.min, def.max, def.step);
+      const b = pickNumber(random, options, range.max, def.min, def.max, def.step);
+      return { min: Math.min(a, b), max: Math.max(a, b) };
+    }
+    case "curve": {
+      // Keeps the points' x positions so the curve's shape stays editable; only heights move.
+      const points = Array.isArray(current) && current.length >= 2 ? current : def.points;
+      return points.map((point) => ({ x: point.x, y: Number(pickNumber(random, options, point.y, 0, 1).toFixed(4)) }));
+    }
+  }
+};
+
+/**
+ * New values for every unlocked, randomizable param of `effect`, drawn from
+ * `createRng`. Each param draws from its own stream keyed by the seed and its
+ * key, so locking or adding a param doesn't reshuffle the others.
+ */
+export function randomizeParamValues(effect: Effect, current: ParamValues, options: RandomizeOptions): ParamValues {
+  const locked = new Set(options.locked ?? []);
+  const amount = clamp(options.amount, 0, 1);
+  const next: ParamValues = { ...current };
+
+  effect.params.forEach((def) => {
+    if (locked.has(def.key) || !isRandomizable(def)) return;
+    const random = createRng(`${options.seed}:${def.key}`);
+    const value = pickValue(def, current[def.key] ?? effect.defaults[def.key], random, { ...options, amount });
+    if (value !== undefined) next[def.key] = value;
+  });
+
+  return next;
+}
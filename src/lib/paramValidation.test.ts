@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+
+import { getEffect } from "@/effects";
+import type { EffectLayer, ParamDef } from "@/effects/types";
+import type { StoredState } from "@/lib/storage";
+
+import {
+  MAX_CURVE_POINTS,
+  MAX_KEYFRAMES_PER_TRACK,
+  MAX_LAYERS,
+  MAX_SEED_LENGTH,
+  MAX_TEXT_LENGTH,
+  parseStoredState,
+  validateParamValue,
+  validateStoredState,
+} from "./paramValidation";
+
+const squareDrift = getEffect("square-drift");
+
+const baseState: StoredState = {
+  effectId: squareDrift.id,
+  params: { ...squareDrift.defaults },
+  width: 320,
+  height: 240,
+  fps: 12,
+  durationSec: 4,
+  seed: "ABC123",
+  background: "white",
+  invert: false,
+};
+
+const createLayer = (overrides: Partial<EffectLayer> = {}): EffectLayer => ({
+  id: "layer",
+  effectId: squareDrift.id,
+  opacity: 1,
+  blendMode: "normal",
+  enabled: true,
+  params: { ...squareDrift.defaults },
+  ...overrides,
+});
+
+describe("validateParamValue", () => {
+  const number: ParamDef = { key: "amount", type: "number", label: "Amount", min: 0, max: 10 };
+  const int: ParamDef = { key: "count", type: "int", label: "Count", min: 1, max: 8 };
+
+  it("keeps numbers in range untouched", () => {
+    expect(validateParamValue(number, 2.5, 1)).toEqual({ value: 2.5, correction: null });
+  });
+
+  it("clamps numbers to min and max", () => {
+    expect(validateParamValue(number, 99, 1)).toEqual({ value: 10, correction: "99 → 10" });
+    expect(validateParamValue(number, -3, 1)).toEqual({ value: 0, correction: "-3 → 0" });
+  });
+
+  it("rounds ints before clamping", () => {
+    expect(validateParamValue(int, 3.6, 1).value).toBe(4);
+    expect(validateParamValue(int, 8.4, 1).value).toBe(8);
+    expect(validateParamValue(int, 1e9, 1).value).toBe(8);
+  });
+
+  it("accepts numeric strings but resets anything else to the fallback", () => {
+    expect(validateParamValue(number, "4", 1)).toEqual({ value: 4, correction: '"4" → 4' });
+    expect(validateParamValue(number, "lots", 1)).toEqual({ value: 1, correction: 'reset invalid "lots"' });
+    expect(validateParamValue(number, Infinity, 1).value).toBe(1);
+    expect(validateParamValue(number, { valueOf: 5 }, 1).value).toBe(1);
+  });
+
+  it("replaces unknown select options with the fallback", () => {
+    const select: ParamDef = { key: "mode", type: "select", label: "Mode", options: ["wave", "grid"] };
+
+    expect(validateParamValue(select, "grid", "wave")).toEqual({ value: "grid", correction: null });
+    expect(validateParamValue(select, "<script>", "wave")).toEqual({
+      value: "wave",
+      correction: 'unknown option "<script>"',
+    });
+    expect(validateParamValue(select, 1, "wave").value).toBe("wave");
+  });
+
+  it("truncates text and seeds to their limits", () => {
+    const text: ParamDef = { key: "text", type: "text", label: "Text" };
+    const seed: ParamDef = { key: "seed", type: "seed", label: "Seed" };
+
+    expect(validateParamValue(text, "x".repeat(MAX_TEXT_LENGTH + 50), "")).toEqual({
+      value: "x".repeat(MAX_TEXT_LENGTH),
+      correction: `truncated to ${MAX_TEXT_LENGTH} characters`,
+    });
+    expect(validateParamValue(seed, "s".repeat(MAX_SEED_LENGTH + 1), "").value).toHaveLength(MAX_SEED_LENGTH);
+    expect(validateParamValue(text, "hello", "")).toEqual({ value: "hello", correction: null });
+    expect(validateParamValue(text, ["hello"], "fallback").value).toBe("fallback");
+  });
+
+  it("caps curves at the point limit and clamps points into the unit square", () => {
+    const curve: ParamDef = { key: "curve", type: "curve", label: "Curve", points: [] };
+    const fallback = [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+    ];
+    const many = Array.from({ length: MAX_CURVE_POINTS + 10 }, (_, index) => ({ x: index / 100, y: 0.5 }));
+
+    const capped = validateParamValue(curve, many, fallback);
+    expect(capped.value).toHaveLength(MAX_CURVE_POINTS);
+    expect(capped.correction).toBe(`capped at ${MAX_CURVE_POINTS} points`);
+
+    const clamped = validateParamValue(curve, [{ x: -1, y: 0 }, { x: 2, y: 5 }, "junk"], fallback);
+    expect(clamped).toEqual({
+      value: [
+        { x: 0, y: 0 },
+        { x: 1, y: 1 },
+      ],
+      correction: "dropped or clamped invalid points",
+    });
+
+    expect(validateParamValue(curve, [{ x: 0.5, y: 0.5 }], fallback).value).toBe(fallback);
+  });
+});
+
+describe("validateStoredState", () => {
+  it("passes a valid state through without corrections", () => {
+    const state = { ...baseState, layers: [createLayer()] };
+
+    expect(validateStoredState(state)).toEqual({ state, corrections: [] });
+  });
+
+  it(`keeps only the first ${MAX_LAYERS} layers`, () => {
+    const layers = Array.from({ length: MAX_LAYERS + 4 }, (_, index) => createLayer({ id: `layer-${index}` }));
+
+    const { state, corrections } = validateStoredState({ ...baseState, layers });
+
+    expect(state.layers).toHaveLength(MAX_LAYERS);
+    expect(state.layers?.[MAX_LAYERS - 1].id).toBe(`layer-${MAX_LAYERS - 1}`);
+    expect(corrections).toContain(`Kept the first ${MAX_LAYERS} of ${MAX_LAYERS + 4} layers`);
+  });
+
+  it("drops layers with an unknown effect", () => {
+    const layers = [createLayer({ id: "kept" }), createLayer({ id: "dropped", effectId: "no-such-effect" })];
+
+    const { state, corrections } = validateStoredState({ ...baseState, layers });
+
+    expect(state.layers?.map((layer) => layer.id)).toEqual(["kept"]);
+    expect(corrections).toContain('Dropped a layer with unknown effect "no-such-effect"');
+  });
+
+  it("replaces an unknown legacy effect with the first effect and its defaults", () => {
+    const { state, corrections } = validateStoredState({ ...baseState, effectId: "no-such-effect", params: { x: 1 } });
+
+    expect(state.effectId).toBe(squareDrift.id);
+    expect(state.params).toEqual(squareDrift.defaults);
+    expect(corrections).toEqual([`Unknown effect "no-such-effect" replaced with ${squareDrift.name}`]);
+  });
+
+  it("validates layer params and drops unknown ones", () => {
+    const layers = [createLayer({ params: { ...squareDrift.defaults, gridCols: 500, evil: "x" } })];
+
+    const { state, corrections } = validateStoredState({ ...baseState, layers });
+
+    expect(state.layers?.[0].params.gridCols).toBe(96);
+    expect(state.layers?.[0].params).not.toHaveProperty("evil");
+    expect(corrections).toEqual([
+      "Square Drift · Grid Columns: 500 → 96",
+      'Square Drift: ignored unknown param "evil"',
+    ]);
+  });
+
+  it(`caps keyframe tracks at ${MAX_KEYFRAMES_PER_TRACK} keyframes and validates their values`, () => {
+    const track = Array.from({ length: MAX_KEYFRAMES_PER_TRACK + 100 }, (_, frame) => ({
+      frame,
+      value: frame === 0 ? 1000 : 8,
+      easing: "linear",
+    }));
+    const layers = [createLayer({ keyframes: { gridCols: track } as EffectLayer["keyframes"] })];
+
+    const { state, corrections } = validateStoredState({ ...baseState, layers });
+
+    const kept = state.layers?.[0].keyframes?.gridCols ?? [];
+    expect(kept).toHaveLength(MAX_KEYFRAMES_PER_TRACK);
+    expect(kept[0].value).toBe(96);
+    expect(corrections).toContain(`Square Drift · Grid Columns: capped at ${MAX_KEYFRAMES_PER_TRACK} keyframes`);
+    expect(corrections).toContain("Square Drift · Grid Columns keyframe: 1000 → 96");
+  });
+
+  it("truncates the seed", () => {
+    const { state, corrections } = validateStoredState({ ...baseState, seed: "S".repeat(100) });
+
+    expect(state.seed).toHaveLength(MAX_SEED_LENGTH);
+    expect(corrections).toContain(`Seed truncated to ${MAX_SEED_LENGTH} characters`);
+  });
+});
+
+describe("parseStoredState", () => {
+  it("rejects anything that isn't an object", () => {
+    expect(parseStoredState(null)).toBeNull();
+    expect(parseStoredState("state")).toBeNull();
+    expect(parseStoredState([baseState])).toBeNull();
+  });
+
+  it("coerces fields to their expected types", () => {
+    const parsed = parseStoredState({
+      effectId: 42,
+      params: "nope",
+      width: "320",
+      height: 240,
+      fps: 12,
+      durationSec: 4,
+      seed: { toString: "x" },
+      background: "purple",
+      invert: "yes",
+      loopMode: 1,
+      layers: [createLayer(), "junk", null],
+      activeLayerId: 7,
+      schemaVersion: "2",
+    });
+
+    expect(parsed).toEqual({
+      effectId: "",
+      params: {},
+      width: 320,
+      height: 240,
+      fps: 12,
+      durationSec: 4,
+      seed: "",
+      background: "white",
+      invert: false,
+      loopMode: false,
+      layers: [createLayer()],
+    });
+  });
+
+  it("keeps optional fields of the right type", () => {
+    const parsed = parseStoredState({ ...baseState, background: "black", activeLayerId: "layer", schemaVersion: 3 });
+
+    expect(parsed).toMatchObject({ background: "black", activeLayerId: "layer", schemaVersion: 3 });
+  });
+});
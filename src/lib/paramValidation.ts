@@ -0,0 +1,217 @@
+import { effects } from "@/effects";
+import type { Effect, ParamDef, ParamValue, ParamValues } from "@/effects/types";
+import { isKeyframeable } from "@/lib/keyframes";
+import type { StoredState } from "@/lib/storage";
+
+export const MAX_TEXT_LENGTH = 256;
+export const MAX_SEED_LENGTH = 32;
+export const MAX_CURVE_POINTS = 32;
+export const MAX_LAYERS = 16;
+export const MAX_KEYFRAMES_PER_TRACK = 512;
+
+type ValueCheck = { value: ParamValue; correction: string | null };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const formatRaw = (value: unknown) => {
+  const text = typeof value === "string" ? `"${value}"` : JSON.stringify(value) ?? String(value);
+  return text.length > 24 ? `${text.slice(0, 21)}…` : text;
+};
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : null;
+};
+
+const clampNumber = (value: number, min: number | undefined, max: number | undefined) =>
+  clamp(value, min ?? -Infinity, max ?? Infinity);
+
+/** Checks one value against its `ParamDef`, falling back to `fallback` when it can't be repaired. */
+export function validateParamValue(def: ParamDef, raw: unknown, fallback: ParamValue): ValueCheck {
+  const reset = (): ValueCheck => ({ value: fallback, correction: `reset invalid ${formatRaw(raw)}` });
+
+  switch (def.type) {
+    case "number":
+    case "int": {
+      const number = toNumber(raw);
+      if (number === null) return reset();
+      const value = clampNumber(def.type === "int" ? Math.round(number) : number, def.min, def.max);
+      return { value, correction: value !== raw ? `${formatRaw(raw)} → ${value}` : null };
+    }
+    case "boolean":
+      return typeof raw === "boolean" ? { value: raw, correction: null } : reset();
+    case "select":
+      if (typeof raw === "string" && def.options.includes(raw)) return { value: raw, correction: null };
+      return { value: fallback, correction: `unknown option ${formatRaw(raw)}` };
+    case "text":
+    case "seed": {
+      if (typeof raw !== "string") return reset();
+      const limit = def.type === "seed" ? MAX_SEED_LENGTH : MAX_TEXT_LENGTH;
+      if (raw.length <= limit) return { value: raw, correction: null };
+      return { value: raw.slice(0, limit), correction: `truncated to ${limit} characters` };
+    }
+    case "color": {
+      if (typeof raw !== "string") return reset();
+      if (def.monochrome) {
+        const grey = toNumber(raw);
+        if (grey === null) return reset();
+        const value = String(clamp(Math.round(grey), 0, 255));
+        return { value, correction: value !== raw ? `${formatRaw(raw)} → ${value}` : null };
+      }
+      return /^#[0-9a-f]{6}$/i.test(raw.trim()) ? { value: raw.trim(), correction: null } : reset();
+    }
+    case "vector2": {
+      if (!isRecord(raw)) return reset();
+      const x = toNumber(raw.x);
+      const y = toNumber(raw.y);
+      if (x === null || y === null) return reset();
+      const value = { x: clampNumber(x, def.min, def.max), y: clampNumber(y, def.min, def.max) };
+      const changed = value.x !== raw.x || value.y !== raw.y;
+      return { value, correction: changed ? `clamped to (${value.x}, ${value.y})` : null };
+    }
+    case "range": {
+      if (!isRecord(raw)) return reset();
+      const low = toNumber(raw.min);
+      const high = toNumber(raw.max);
+      if (low === null || high === null) return reset();
+      const min = clamp(Math.min(low, high), def.min, def.max);
+      const max = clamp(Math.max(low, high), def.min, def.max);
+      const changed = min !== raw.min || max !== raw.max;
+      return { value: { min, max }, correction: changed ? `clamped to ${min}–${max}` : null };
+    }
+    case "curve": {
+      if (!Array.isArray(raw)) return reset();
+      const points = raw
+        .slice(0, MAX_CURVE_POINTS)
+        .filter(isRecord)
+        .map((point) => ({ x: toNumber(point.x), y: toNumber(point.y) }))
+        .filter((point): point is { x: number; y: number } => point.x !== null && point.y !== null)
+        .map((point) => ({ x: clamp(point.x, 0, 1), y: clamp(point.y, 0, 1) }));
+      if (points.length < 2) return reset();
+      const changed = points.length !== raw.length || JSON.stringify(points) !== JSON.stringify(raw);
+      return {
+        value: points,
+        correction: changed
+          ? raw.length > MAX_CURVE_POINTS
+            ? `capped at ${MAX_CURVE_POINTS} points`
+            : "dropped or clamped invalid points"
+          : null,
+      };
+    }
+  }
+}
+
+/**
+ * Validates params against the effect's `ParamDef` list: missing params take the
+ * defaults, unknown keys are dropped and every correction is described.
+ */
+export function validateParams(effect: Effect, raw: unknown): { params: ParamValues; corrections: string[] } {
+  const source = isRecord(raw) ? raw : {};
+  const corrections: string[] = [];
+  const params: ParamValues = { ...effect.defaults };
+
+  effect.params.forEach((def) => {
+    if (!(def.key in source)) return;
+    const check = validateParamValue(def, source[def.key], effect.defaults[def.key]);
+    params[def.key] = check.value;
+    if (check.correction) corrections.push(`${effect.name} · ${def.label}: ${check.correction}`);
+  });
+  Object.keys(source)
+    .filter((key) => !effect.params.some((def) => def.key === key))
+    .forEach((key) => corrections.push(`${effect.name}: ignored unknown param "${key}"`));
+
+  return { params, corrections };
+}
+
+const validateKeyframes = (effect: Effect, raw: unknown, params: ParamValues, corrections: string[]) => {
+  if (!isRecord(raw)) return undefined;
+  const tracks: Record<string, unknown[]> = {};
+  effect.params.filter(isKeyframeable).forEach((def) => {
+    const track = raw[def.key];
+    if (!Array.isArray(track)) return;
+    if (track.length > MAX_KEYFRAMES_PER_TRACK) {
+      corrections.push(`${effect.name} · ${def.label}: capped at ${MAX_KEYFRAMES_PER_TRACK} keyframes`);
+    }
+    tracks[def.key] = track.slice(0, MAX_KEYFRAMES_PER_TRACK).filter(isRecord).map((keyframe) => {
+      const check = validateParamValue(def, keyframe.value, params[def.key]);
+      if (check.correction) corrections.push(`${effect.name} · ${def.label} keyframe: ${check.correction}`);
+      return { ...keyframe, value: check.value };
+    });
+  });
+  return tracks;
+};
+
+/**
+ * Checks every layer's params and keyframe values against its effect. Layers
+ * naming an unknown effect are dropped; the stack is capped at `MAX_LAYERS`.
+ */
+export function validateStoredState(state: StoredState): { state: StoredState; corrections: string[] } {
+  const corrections: string[] = [];
+  const findEffect = (effectId: unknown) => effects.find((effect) => effect.id === effectId);
+
+  const rawLayers = Array.isArray(state.layers) ? state.layers : undefined;
+  if (rawLayers && rawLayers.length > MAX_LAYERS) {
+    corrections.push(`Kept the first ${MAX_LAYERS} of ${rawLayers.length} layers`);
+  }
+  const layers = rawLayers?.slice(0, MAX_LAYERS).flatMap((layer) => {
+    const effect = isRecord(layer) ? findEffect(layer.effectId) : undefined;
+    if (!effect) {
+      corrections.push(`Dropped a layer with unknown effect ${formatRaw(isRecord(layer) ? layer.effectId : layer)}`);
+      return [];
+    }
+    const { params, corrections: paramCorrections } = validateParams(effect, layer.params);
+    corrections.push(...paramCorrections);
+    const keyframes = validateKeyframes(effect, layer.keyframes, params, corrections);
+    return [{ ...layer, params, ...(keyframes ? { keyframes: keyframes as typeof layer.keyframes } : {}) }];
+  });
+
+  let { effectId, params } = state;
+  const topEffect = findEffect(effectId);
+  if (!layers || layers.length === 0) {
+    // Only the legacy single-effect fields describe the scene, so they get the same checks.
+    if (topEffect) {
+      const result = validateParams(topEffect, params);
+      params = result.params;
+      corrections.push(...result.corrections);
+    } else {
+      corrections.push(`Unknown effect ${formatRaw(effectId)} replaced with ${effects[0].name}`);
+      effectId = effects[0].id;
+      params = { ...effects[0].defaults };
+    }
+  }
+
+  const seed = typeof state.seed === "string" ? state.seed.slice(0, MAX_SEED_LENGTH) : state.seed;
+  if (seed !== state.seed) corrections.push(`Seed truncated to ${MAX_SEED_LENGTH} characters`);
+
+  return {
+    state: { ...state, effectId, params, seed, ...(layers ? { layers } : {}) },
+    corrections: Array.from(new Set(corrections)),
+  };
+}
+
+/**
+ * Shape check for untrusted input (share links): enough structure that migrations
+ * and validation can run. Values inside are checked later by `validateStoredState`.
+ */
+export function parseStoredState(raw: unknown): StoredState | null {
+  if (!isRecord(raw)) return null;
+  const layers = Array.isArray(raw.layers) ? raw.layers.filter(isRecord) : undefined;
+  return {
+    effectId: typeof raw.effectId === "string" ? raw.effectId : "",
+    params: isRecord(raw.params) ? raw.params : {},
+    width: Number(raw.width),
+    height: Number(raw.height),
+    fps: Number(raw.fps),
+    durationSec: Number(raw.durationSec),
+    seed: typeof raw.seed === "string" ? raw.seed : "",
+    background: raw.background === "black" ? "black" : "white",
+    invert: raw.invert === true,
+    loopMode: raw.loopMode === true,
+    ...(layers ? { layers: layers as unknown as StoredState["layers"] } : {}),
+    ...(typeof raw.activeLayerId === "string" ? { activeLayerId: raw.activeLayerId } : {}),
+    ...(typeof raw.schemaVersion === "number" ? { schemaVersion: raw.schemaVersion } : {}),
+  };
+}
@@ -0,0 +1,62 @@
+import { getEffect } from "@/effects";
+import type { PresetRecord } from "@/lib/storage";
+
+export type PresetSort = "recent" | "oldest" | "name" | "effect";
+
+export const presetSorts: { value: PresetSort; label: string }[] = [
+  { value: "recent", label: "Recently saved" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "name", label: "Name" },
+  { value: "effect", label: "Effect" },
+];
+
+/** `ALL_FOLDERS` shows every preset; "" shows only unfiled ones. */
+export const ALL_FOLDERS = "*";
+
+export type PresetFilter = {
+  query: string;
+  folder: string;
+};
+
+const effectNameOf = (preset: PresetRecord) => getEffect(preset.data.effectId).name;
+
+/**
+ * Every whitespace-separated term must match the name, a tag, the effect or the
+ * folder. A leading `#` restricts a term to tags.
+ */
+export function filterPresets(presets: PresetRecord[], filter: PresetFilter): PresetRecord[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return presets.filter((preset) => {
+    if (filter.folder !== ALL_FOLDERS && preset.folder !== filter.folder) return false;
+    const tags = preset.tags.map((tag) => tag.toLowerCase());
+    const fields = [preset.name, effectNameOf(preset), preset.folder].map((field) => field.toLowerCase());
+    return terms.every((term) => {
+      if (term.startsWith("#")) {
+        const tag = term.slice(1);
+        return tag === "" || tags.some((candidate) => candidate.includes(tag));
+      }
+      return tags.some((tag) => tag.includes(term)) || fields.some((field) => field.includes(term));
+    });
+  });
+}
+
+export function sortPresets(presets: PresetRecord[], sort: PresetSort): PresetRecord[] {
+  const byName = (a: PresetRecord, b: PresetRecord) => a.name.localeCompare(b.name, undefined, { numeric: true });
+  const sorted = [...presets];
+  switch (sort) {
+    case "recent":
+      return sorted.sort((a, b) => b.savedAt - a.savedAt);
+    case "oldest":
+      return sorted.sort((a, b) => a.createdAt - b.createdAt);
+    case "name":
+      return sorted.sort(byName);
+    case "effect":
+      return sorted.sort((a, b) => effectNameOf(a).localeCompare(effectNameOf(b)) || byName(a, b));
+  }
+}
+
+export const getPresetFolders = (presets: PresetRecord[]) =>
+  Array.from(new Set(presets.map((preset) => preset.folder).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+export const getPresetTags = (presets: PresetRecord[]) =>
+  Array.from(new Set(presets.flatMap((preset) => preset.tags))).sort((a, b) => a.localeCompare(b));
@@ -0,0 +1,50 @@
+import { getEffect } from "@/effects";
+import type { EffectLayer, Keyframe, KeyframeTracks, ParamDef } from "@/effects/types";
+import type { EasingType } from "@/lib/easing";
+import { isKeyframeable } from "@/lib/keyframes";
+import type { PresetRecord } from "@/lib/storage";
+import { resolveStoredState } from "@/store/useEditor";
+
+export type MorphOptions = {
+  frameCount: number;
+  /** Easing of every blended param from A to B. */
+  easing: EasingType;
+  /** Where in the loop, 0–1, `select` and `boolean` params switch from A to B. */
+  midpoint: number;
+};
+
+const STEPPED_TYPES: ParamDef["type"][] = ["select", "boolean"];
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/** The layer a preset shows in the param panel: its active layer, migrated and validated. */
+export function getPresetLayer(preset: PresetRecord): EffectLayer {
+  const { snapshot } = resolveStoredState(preset.data);
+  return snapshot.layers.find((layer) => layer.id === snapshot.activeLayerId) ?? snapshot.layers[0];
+}
+
+/**
+ * Keyframe tracks that take every differing param from `from` to `to` across
+ * the loop: blendable params ease from the first frame to the last, stepped
+ * ones switch at the midpoint. Params that can't be keyframed keep A's value.
+ */
+export function createMorphTracks(from: EffectLayer, to: EffectLayer, options: MorphOptions): KeyframeTracks | undefined {
+  const effect = getEffect(from.effectId);
+  const lastFrame = Math.max(1, options.frameCount - 1);
+  const switchFrame = Math.max(1, Math.min(lastFrame, Math.round(options.midpoint * lastFrame)));
+  const tracks: KeyframeTracks = {};
+
+  effect.params.filter(isKeyframeable).forEach((def) => {
+    const a = from.params[def.key] ?? effect.defaults[def.key];
+    const b = to.params[def.key] ?? effect.defaults[def.key];
+    if (a === undefined || b === undefined || sameValue(a, b)) return;
+    const stepped = STEPPED_TYPES.includes(def.type);
+    const track: Keyframe[] = [
+      { frame: 0, value: a, easing: stepped ? "linear" : options.easing },
+      { frame: stepped ? switchFrame : lastFrame, value: b, easing: "linear" },
+    ];
+    tracks[def.key] = track;
+  });
+
+  return Object.keys(tracks).length > 0 ? tracks : undefined;
+}
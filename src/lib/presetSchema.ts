@@ -0,0 +1,157 @@
+import { z } from "zod";
+
+import type { EasingType } from "@/lib/easing";
+import { isBlendMode } from "@/lib/compositor";
+import { isEasingType } from "@/lib/keyframes";
+import type { PresetRecord } from "@/lib/storage";
+
+export const PRESET_FILE_FORMAT = "bw-animator-presets";
+export const PRESET_FILE_VERSION = 1;
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const paramValueSchema = z.union([
+  z.number(),
+  z.string(),
+  z.boolean(),
+  pointSchema,
+  z.object({ min: z.number(), max: z.number() }),
+  z.array(pointSchema),
+]);
+
+const keyframeSchema = z.object({
+  frame: z.number().int().nonnegative(),
+  value: paramValueSchema,
+  easing: z.custom<EasingType>(isEasingType, { message: "Unknown easing" }),
+});
+
+const effectLayerSchema = z.object({
+  id: z.string().min(1),
+  effectId: z.string().min(1),
+  opacity: z.number().min(0).max(1),
+  blendMode: z.string().refine(isBlendMode, { message: "Unknown blend mode" }),
+  enabled: z.boolean(),
+  solo: z.boolean().optional(),
+  muted: z.boolean().optional(),
+  params: z.record(z.string(), paramValueSchema),
+  keyframes: z.record(z.string(), z.array(keyframeSchema)).optional(),
+});
+
+export const storedStateSchema = z.object({
+  effectId: z.string().min(1),
+  params: z.record(z.string(), z.unknown()),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  fps: z.number().positive(),
+  durationSec: z.number().positive(),
+  seed: z.string(),
+  background: z.enum(["white", "black"]),
+  invert: z.boolean(),
+  layers: z.array(effectLayerSchema).optional(),
+  activeLayerId: z.string().optional(),
+  loopMode: z.boolean().optional(),
+  schemaVersion: z.number().int().nonnegative().optional(),
+});
+
+/** Fields added after the first release default here, which migrates older records and files. */
+export const presetRecordSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  data: storedStateSchema,
+  savedAt: z.number(),
+  createdAt: z.number().optional(),
+  tags: z.array(z.string()).default([]),
+  folder: z.string().default(""),
+});
+
+const presetFileSchema = z.object({
+  format: z.literal(PRESET_FILE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.number().optional(),
+  presets: z.array(z.unknown()),
+});
+
+export type PresetFile = z.infer<typeof presetFileSchema>;
+
+export type PresetRejection = {
+  /** Position of the record in the imported file. */
+  index: number;
+  name: string | null;
+  reason: string;
+};
+
+export type PresetImportResult = {
+  accepted: PresetRecord[];
+  rejected: PresetRejection[];
+};
+
+export function formatSchemaError(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+/** Parses a stored record, or returns why it can't be used. */
+export function parsePresetRecord(raw: unknown): { record: PresetRecord } | { reason: string } {
+  const result = presetRecordSchema.safeParse(raw);
+  if (!result.success) return { reason: formatSchemaError(result.error) };
+  const { createdAt, ...record } = result.data;
+  return { record: { ...record, createdAt: createdAt ?? record.savedAt } as PresetRecord };
+}
+
+export function createPresetFile(records: PresetRecord[]): PresetFile {
+  return {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    exportedAt: Date.now(),
+    presets: records,
+  };
+}
+
+/**
+ * Validates a preset file record by record, so one bad entry doesn't block the rest.
+ * A file that isn't a preset file at all is reported as a single rejection.
+ */
+export function parsePresetFile(text: string): PresetImportResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { accepted: [], rejected: [{ index: 0, name: null, reason: "File is not valid JSON" }] };
+  }
+
+  const file = presetFileSchema.safeParse(json);
+  if (!file.success) {
+    return {
+      accepted: [],
+      rejected: [{ index: 0, name: null, reason: `Not a preset file (${formatSchemaError(file.error)})` }],
+    };
+  }
+  if (file.data.version > PRESET_FILE_VERSION) {
+    return {
+      accepted: [],
+      rejected: [
+        {
+          index: 0,
+          name: null,
+          reason: `File version ${file.data.version} is newer than supported version ${PRESET_FILE_VERSION}`,
+        },
+      ],
+    };
+  }
+
+  const result: PresetImportResult = { accepted: [], rejected: [] };
+  file.data.presets.forEach((raw, index) => {
+    const parsed = parsePresetRecord(raw);
+    if ("record" in parsed) {
+      result.accepted.push(parsed.record);
+      return;
+    }
+    const name = raw && typeof raw === "object" && typeof (raw as { name?: unknown }).name === "string"
+      ? (raw as { name: string }).name
+      : null;
+    result.rejected.push({ index, name, reason: parsed.reason });
+  });
+  return result;
+}
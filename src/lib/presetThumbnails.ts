@@ -0,0 +1,66 @@
+import type { ExportConfig } from "@/components/CanvasHost";
+import { computeColors } from "@/lib/compositor";
+import { getTotalFrames, renderExportFrames, type ExportOptions } from "@/lib/exportFrames";
+
+/** Edge length of one square thumbnail cell, in pixels. */
+export const THUMBNAIL_SIZE = 96;
+/** Cells in the animated strip; the first cell is frame 0. */
+export const THUMBNAIL_FRAMES = 8;
+/** The strip samples the start of the loop so long or high-fps presets stay quick to save. */
+const PREVIEW_WINDOW_SEC = 2;
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode thumbnail"))), "image/png");
+  });
+
+/** Frame indices the strip samples, in order, starting at frame 0. */
+export function getThumbnailFrames(config: Pick<ExportConfig, "fps" | "durationSec">): number[] {
+  const totalFrames = getTotalFrames(config);
+  const window = Math.min(totalFrames, Math.max(THUMBNAIL_FRAMES, Math.round(config.fps * PREVIEW_WINDOW_SEC)));
+  const count = Math.min(THUMBNAIL_FRAMES, window);
+  return Array.from({ length: count }, (_, index) => Math.floor((index * window) / count));
+}
+
+/**
+ * Renders the preset off-screen at full size and scales sampled frames into a
+ * horizontal PNG strip of square cells, letterboxed in the paper color.
+ */
+export async function capturePresetThumbnail(config: ExportConfig, options: ExportOptions = {}): Promise<Blob> {
+  const frames = getThumbnailFrames(config);
+  const strip = document.createElement("canvas");
+  strip.width = THUMBNAIL_SIZE * frames.length;
+  strip.height = THUMBNAIL_SIZE;
+  const context = strip.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D context is unavailable");
+  }
+
+  const { paper } = computeColors(config.background, config.invert);
+  context.fillStyle = `rgb(${paper}, ${paper}, ${paper})`;
+  context.fillRect(0, 0, strip.width, strip.height);
+  context.imageSmoothingQuality = "high";
+
+  const scale = Math.min(THUMBNAIL_SIZE / config.width, THUMBNAIL_SIZE / config.height);
+  const drawWidth = config.width * scale;
+  const drawHeight = config.height * scale;
+
+  await renderExportFrames(
+    config,
+    (canvas, frameIndex) => {
+      const cell = frames.indexOf(frameIndex);
+      if (cell === -1) return;
+      context.drawImage(
+        canvas,
+        cell * THUMBNAIL_SIZE + (THUMBNAIL_SIZE - drawWidth) / 2,
+        (THUMBNAIL_SIZE - drawHeight) / 2,
+        drawWidth,
+        drawHeight,
+      );
+    },
+    options,
+    frames[frames.length - 1] + 1,
+  );
+
+  return canvasToBlob(strip);
+}
@@ -1,6 +1,7 @@
 export interface QualitySettings {
   mode: 'preview' | 'draft' | 'render';
   previewScale: number;    // 0.1 - 1.0
+  maxPreviewScale: number; // Auto-scale never climbs past the tier's starting scale
   previewFPS: number;      // Scaled FPS for smooth preview
   autoScale: boolean;      // Auto-adjust based on performance
 }
@@ -20,24 +21,27 @@ export function calculateOptimalSettings(
   const complexity = width * height * fps * effectCount;
 
   // Performance tiers based on total pixel throughput
-  if (complexity < 1_000_000) { // ~640x640@24fps
+  if (complexity < 10_000_000) { // up to ~640x640@24fps
     return {
       mode: 'preview',
       previewScale: 1.0,
+      maxPreviewScale: 1.0,
       previewFPS: fps,
       autoScale: false
     };
-  } else if (complexity < 10_000_000) { // ~1920x1080@24fps
+  } else if (complexity < 50_000_000) { // up to ~1920x1080@24fps
     return {
       mode: 'preview',
       previewScale: 0.7,
+      maxPreviewScale: 0.7,
       previewFPS: Math.min(fps, 24),
       autoScale: true
     };
-  } else if (complexity < 50_000_000) { // 4K@24fps or HD@60fps
+  } else if (complexity < 200_000_000) { // up to 4K@24fps or HD@60fps
     return {
       mode: 'preview',
       previewScale: 0.5,
+      maxPreviewScale: 0.5,
       previewFPS: Math.min(fps, 12),
       autoScale: true
     };
@@ -45,6 +49,7 @@ export function calculateOptimalSettings(
     return {
       mode: 'preview',
       previewScale: 0.3,
+      maxPreviewScale: 0.3,
       previewFPS: Math.min(fps, 8),
       autoScale: true
     };
@@ -95,4 +100,32 @@ export function shouldWarnLargeExport(
   }
 
   return { warn: false };
-}
\ No newline at end of file
+}
+
+const MIN_PREVIEW_SCALE = 0.1;
+/** Each auto-scale step changes the resolution by this factor (about 0.56× the pixels). */
+const AUTO_SCALE_STEP = 0.75;
+/** Scale down when frames take longer than this share of the preview frame budget... */
+const SLOW_FRAME_RATIO = 0.9;
+/** ...and back up when they take less than this share, leaving room so it doesn't oscillate. */
+const FAST_FRAME_RATIO = 0.35;
+
+/**
+ * Steps `previewScale` down when the measured render time misses the preview
+ * frame budget and back up (never past `maxPreviewScale`) when there is
+ * headroom. Returns `settings` itself when nothing changes or `autoScale` is off.
+ */
+export function adjustPreviewScale(settings: QualitySettings, averageFrameMs: number): QualitySettings {
+  if (!settings.autoScale) return settings;
+  const budgetMs = 1000 / Math.max(1, settings.previewFPS);
+  let previewScale = settings.previewScale;
+
+  if (averageFrameMs > budgetMs * SLOW_FRAME_RATIO) {
+    previewScale = Math.max(MIN_PREVIEW_SCALE, settings.previewScale * AUTO_SCALE_STEP);
+  } else if (averageFrameMs < budgetMs * FAST_FRAME_RATIO) {
+    previewScale = Math.min(settings.maxPreviewScale, settings.previewScale / AUTO_SCALE_STEP);
+  }
+
+  previewScale = Math.round(previewScale * 100) / 100;
+  return previewScale === settings.previewScale ? settings : { ...settings, previewScale };
+}
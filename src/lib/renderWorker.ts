@@ -0,0 +1,98 @@
+/**
+ * Worker entry for `createRenderWorker`: runs a p5 instance on an OffscreenCanvas
+ * and applies the compositor commands the main thread posts, replying with the
+ * canvas as an ImageBitmap.
+ */
+
+import type p5 from "p5";
+
+import { createCompositor, type Compositor } from "@/lib/compositor";
+import type { RenderCommand, RenderRequest, RenderResponse } from "@/lib/offscreenRenderer";
+import { createWorkerNode, installWorkerDom } from "@/lib/workerDom";
+
+type WorkerScope = {
+  postMessage: (message: RenderResponse, transfer?: Transferable[]) => void;
+  addEventListener: (type: "message", listener: (event: MessageEvent<RenderRequest>) => void) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+
+const boot = async () => {
+  installWorkerDom();
+  // p5 reads window/document while it loads, so it can only be imported once the shim is in place.
+  const { default: P5Constructor } = await import("p5");
+  // The friendly-error checks look for the page's <script> tags, which a worker doesn't have.
+  (P5Constructor as unknown as { disableFriendlyErrors: boolean }).disableFriendlyErrors = true;
+  return new Promise<{ p: p5; compositor: Compositor }>((resolve, reject) => {
+    new P5Constructor((p: p5) => {
+      p.setup = () => {
+        try {
+          p.createCanvas(1, 1);
+          p.noLoop();
+          resolve({ p, compositor: createCompositor(p) });
+        } catch (error) {
+          reject(error);
+        }
+      };
+    }, createWorkerNode());
+  });
+};
+
+const applyCommand = (compositor: Compositor, command: RenderCommand) => {
+  switch (command.type) {
+    case "reset":
+      compositor.reset(command.config);
+      break;
+    case "updateLayers":
+      compositor.updateLayers(command.layers);
+      break;
+    case "seek":
+      compositor.seek(command.frameIndex, command.fps);
+      break;
+    case "stepLayers":
+      compositor.stepLayers(command.frameIndex, command.fps);
+      break;
+    case "renderFrame":
+      compositor.renderFrame(command.frameIndex, command.fps);
+      break;
+    case "redraw":
+      compositor.redraw();
+      break;
+    case "makePaperTransparent":
+      compositor.makePaperTransparent();
+      break;
+  }
+};
+
+const booted = boot();
+
+booted.then(
+  () => scope.postMessage({ type: "ready" }),
+  (error: Error) => scope.postMessage({ type: "unavailable", message: error.message }),
+);
+
+scope.addEventListener("message", (event) => {
+  const { id, commands, capture } = event.data;
+  void booted.then(({ p, compositor }) => {
+    try {
+      let frameMs: number | null = null;
+      // Frames stepped without compositing are part of what the next rendered frame cost.
+      let steppedMs = 0;
+      commands.forEach((command) => {
+        const startedAt = performance.now();
+        applyCommand(compositor, command);
+        const elapsedMs = performance.now() - startedAt;
+        if (command.type === "stepLayers") steppedMs += elapsedMs;
+        if (command.type === "renderFrame") {
+          frameMs = steppedMs + elapsedMs;
+          steppedMs = 0;
+        }
+      });
+      const canvas = (p.drawingContext as unknown as OffscreenCanvasRenderingContext2D).canvas;
+      const bitmap = capture ? canvas.transferToImageBitmap() : null;
+      scope.postMessage({ type: "done", id, bitmap, frameMs }, bitmap ? [bitmap] : []);
+    } catch (error) {
+      scope.postMessage({ type: "error", id, message: (error as Error).message });
+    }
+  }, () => undefined);
+});
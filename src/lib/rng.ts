@@ -27,11 +27,12 @@ export function createRng(seed: string): () => number {
 
 const SEED_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
 
-export function generateSeed(): string {
+/** A fresh display seed; pass a seeded `random` to derive one reproducibly. */
+export function generateSeed(random: () => number = Math.random): string {
   let out = "";
   for (let i = 0; i < 8; i += 1) {
     if (i === 4) out += "-";
-    const idx = Math.floor(Math.random() * SEED_CHARS.length);
+    const idx = Math.floor(random() * SEED_CHARS.length);
     out += SEED_CHARS[idx];
   }
   return out;
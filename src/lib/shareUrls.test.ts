@@ -0,0 +1,144 @@
+// @vitest-environment node
+// jsdom's Blob has no stream(), which the deflate path pipes through.
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getEffect } from "@/effects";
+import type { EffectLayer } from "@/effects/types";
+import type { StoredState } from "@/lib/storage";
+
+import { compactStoredState, decodeEditorState, encodeStoredState } from "./shareUrls";
+
+const squareDrift = getEffect("square-drift");
+const typographic = getEffect("typographic");
+
+const bottom: EffectLayer = {
+  id: "a1b2c3",
+  effectId: squareDrift.id,
+  opacity: 1,
+  blendMode: "normal",
+  enabled: true,
+  params: { ...squareDrift.defaults, gridCols: 40 },
+};
+
+const top: EffectLayer = {
+  id: "d4e5f6",
+  effectId: typographic.id,
+  opacity: 0.5,
+  blendMode: "multiply",
+  enabled: false,
+  solo: true,
+  muted: true,
+  params: { ...typographic.defaults, text: "HELLO ✦ 世界" },
+  keyframes: { fontSize: [{ frame: 0, value: 40, easing: "easeInOut" }, { frame: 24, value: 200, easing: "linear" }] },
+};
+
+const state: StoredState = {
+  effectId: top.effectId,
+  params: top.params,
+  layers: [bottom, top],
+  activeLayerId: top.id,
+  width: 800,
+  height: 600,
+  fps: 24,
+  durationSec: 5,
+  seed: "SEED42",
+  background: "black",
+  invert: true,
+  loopMode: true,
+  schemaVersion: 1,
+};
+
+// Layer ids are regenerated by position and every layer flag is written out.
+const expected: StoredState = {
+  ...state,
+  layers: [
+    { ...bottom, id: "L-1", solo: false, muted: false },
+    { ...top, id: "L-2" },
+  ],
+  activeLayerId: "L-2",
+};
+
+const base64UrlToBytes = (encoded: string) => Buffer.from(encoded, "base64url");
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("compact share links", () => {
+  it("round-trips the state through the deflate format", async () => {
+    const encoded = await encodeStoredState(state);
+
+    expect(base64UrlToBytes(encoded)[0]).toBe(2);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await decodeEditorState(encoded)).toEqual(expected);
+  });
+
+  it("round-trips through plain JSON where compression is unavailable", async () => {
+    vi.stubGlobal("CompressionStream", undefined);
+
+    const encoded = await encodeStoredState(state);
+
+    expect(base64UrlToBytes(encoded)[0]).toBe(1);
+    expect(await decodeEditorState(encoded)).toEqual(expected);
+  });
+
+  it("omits params equal to the effect defaults and restores them on decode", async () => {
+    const compact = compactStoredState(state);
+
+    expect(compact.y[0].p).toEqual({ gridCols: 40 });
+    expect(compact.y[1].p).toEqual({ text: "HELLO ✦ 世界" });
+
+    const decoded = (await decodeEditorState(await encodeStoredState(state))) as StoredState;
+    expect(decoded.layers?.[0].params).toEqual(bottom.params);
+  });
+
+  it("omits layer fields at their defaults", () => {
+    expect(compactStoredState(state).y[0]).toEqual({ e: squareDrift.id, p: { gridCols: 40 } });
+  });
+
+  it("encodes a legacy single-effect state as one layer", async () => {
+    const legacy: StoredState = { ...state, layers: undefined, activeLayerId: undefined };
+
+    const decoded = (await decodeEditorState(await encodeStoredState(legacy))) as StoredState;
+
+    expect(decoded.layers).toHaveLength(1);
+    expect(decoded).toMatchObject({ effectId: top.effectId, params: top.params, activeLayerId: "L-1" });
+  });
+});
+
+describe("legacy share links", () => {
+  it("still decodes btoa(encodeURIComponent(json)) links", async () => {
+    const encoded = btoa(encodeURIComponent(JSON.stringify(state)));
+
+    expect(await decodeEditorState(encoded)).toEqual(state);
+  });
+
+  it("still decodes links that base64-encoded the JSON directly", async () => {
+    const ascii = { ...state, layers: [bottom], params: bottom.params };
+    const encoded = btoa(JSON.stringify(ascii));
+
+    expect(await decodeEditorState(encoded)).toEqual(ascii);
+  });
+});
+
+describe("unreadable share links", () => {
+  const bytesToBase64Url = (bytes: number[]) => Buffer.from(bytes).toString("base64url");
+
+  it.each([
+    ["a missing payload", undefined],
+    ["an empty payload", ""],
+    ["characters outside base64", "%%%not*base64%%%"],
+    ["truncated legacy JSON", btoa(encodeURIComponent('{"effectId":"square'))],
+    ["a broken percent escape", btoa("%E0%A4%A")],
+    ["a corrupt deflate stream", bytesToBase64Url([2, 0xff, 0x00, 0x13, 0x37])],
+    ["JSON that isn't an object", bytesToBase64Url([1, ...new TextEncoder().encode("null")])],
+    ["random bytes", bytesToBase64Url([7, 200, 13, 99])],
+  ])("resolves %s to null", async (_label, encoded) => {
+    await expect(decodeEditorState(encoded)).resolves.toBeNull();
+  });
+});
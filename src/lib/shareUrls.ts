@@ -1,45 +1,262 @@
+import { getEffect } from "@/effects";
+import type { BlendMode, EffectLayer, KeyframeTracks, ParamValues } from "@/effects/types";
+import type { StoredState } from "@/lib/storage";
 import { getStoredStateSnapshot } from "@/store/useEditor";
 
 export const STATE_PARAM = "state";
 
-const toBase64Url = (input: string) => {
-  if (typeof window !== "undefined" && window.btoa) {
-    const base64 = window.btoa(encodeURIComponent(input));
-    return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+/**
+ * First byte of a compact link payload. Legacy links are base64url JSON, whose
+ * first byte is always `{` or `%`, so they can never collide with these.
+ */
+const FORMAT_JSON = 1;
+const FORMAT_DEFLATE = 2;
+
+/** One layer with short keys; fields equal to their defaults are omitted. */
+type CompactLayer = {
+  /** Effect id. */
+  e: string;
+  /** Params that differ from the effect's defaults. */
+  p?: ParamValues;
+  /** Opacity, when not 1. */
+  o?: number;
+  /** Blend mode, when not "normal". */
+  m?: BlendMode;
+  /** 0 when disabled. */
+  x?: 0;
+  /** 1 when soloed. */
+  so?: 1;
+  /** 1 when muted. */
+  mu?: 1;
+  k?: KeyframeTracks;
+};
+
+type CompactState = {
+  /** `StoredState.schemaVersion`. */
+  v?: number;
+  w: number;
+  h: number;
+  f: number;
+  d: number;
+  s: string;
+  /** 1 for a black background. */
+  b?: 1;
+  i?: 1;
+  l?: 1;
+  /** Index of the active layer, when not 0. */
+  a?: number;
+  y: CompactLayer[];
+};
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const bytesToBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
-  return Buffer.from(input, "utf-8").toString("base64url");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
 };
 
-const fromBase64Url = (encoded: string) => {
+const base64UrlToBytes = (encoded: string) => {
   const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
-  if (typeof window !== "undefined" && window.atob) {
-    const padded = base64 + "==".slice(0, (4 - (base64.length % 4)) % 4);
-    const decoded = window.atob(padded);
-    return decodeURIComponent(decoded);
-  }
-  return Buffer.from(encoded, "base64url").toString("utf-8");
+  const padded = base64 + "==".slice(0, (4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) => {
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
 };
 
-export function encodeEditorState(): string {
-  const snapshot = getStoredStateSnapshot();
-  return toBase64Url(JSON.stringify(snapshot));
+const canCompress = () => typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+
+const compactLayer = (layer: EffectLayer): CompactLayer => {
+  const effect = getEffect(layer.effectId);
+  const params = Object.fromEntries(
+    Object.entries(layer.params).filter(([key, value]) => !sameValue(value, effect.defaults[key])),
+  );
+  return {
+    e: layer.effectId,
+    ...(Object.keys(params).length > 0 ? { p: params } : {}),
+    ...(layer.opacity !== 1 ? { o: layer.opacity } : {}),
+    ...(layer.blendMode !== "normal" ? { m: layer.blendMode } : {}),
+    ...(layer.enabled ? {} : { x: 0 as const }),
+    ...(layer.solo ? { so: 1 as const } : {}),
+    ...(layer.muted ? { mu: 1 as const } : {}),
+    ...(layer.keyframes ? { k: layer.keyframes } : {}),
+  };
+};
+
+export function compactStoredState(state: StoredState): CompactState {
+  const layers = state.layers ?? [];
+  const activeIndex = Math.max(0, layers.findIndex((layer) => layer.id === state.activeLayerId));
+  const compactLayers = layers.length > 0
+    ? layers.map(compactLayer)
+    : [compactLayer({
+        id: "",
+        effectId: state.effectId,
+        opacity: 1,
+        blendMode: "normal",
+        enabled: true,
+        params: state.params as ParamValues,
+      })];
+  return {
+    ...(state.schemaVersion !== undefined ? { v: state.schemaVersion } : {}),
+    w: state.width,
+    h: state.height,
+    f: state.fps,
+    d: state.durationSec,
+    s: state.seed,
+    ...(state.background === "black" ? { b: 1 as const } : {}),
+    ...(state.invert ? { i: 1 as const } : {}),
+    ...(state.loopMode ? { l: 1 as const } : {}),
+    ...(activeIndex > 0 ? { a: activeIndex } : {}),
+    y: compactLayers,
+  };
+}
+
+/**
+ * Inverse of `compactStoredState`. Omitted params come back as the current
+ * defaults; layer ids are regenerated. The result still needs validating.
+ */
+export function expandCompactState(compact: CompactState): StoredState {
+  const rawLayers = Array.isArray(compact.y) ? compact.y : [];
+  const layers = rawLayers.map((layer, index) => {
+    const effect = getEffect(String(layer?.e ?? ""));
+    return {
+      id: `L-${index + 1}`,
+      effectId: String(layer?.e ?? ""),
+      opacity: layer?.o ?? 1,
+      blendMode: layer?.m ?? "normal",
+      enabled: layer?.x !== 0,
+      solo: layer?.so === 1,
+      muted: layer?.mu === 1,
+      params: { ...effect.defaults, ...layer?.p },
+      ...(layer?.k ? { keyframes: layer.k } : {}),
+    } satisfies EffectLayer;
+  });
+  const active = layers[compact.a ?? 0] ?? layers[0];
+  return {
+    effectId: active?.effectId ?? "",
+    params: active?.params ?? {},
+    layers,
+    activeLayerId: active?.id,
+    width: compact.w,
+    height: compact.h,
+    fps: compact.f,
+    durationSec: compact.d,
+    seed: compact.s,
+    background: compact.b === 1 ? "black" : "white",
+    invert: compact.i === 1,
+    loopMode: compact.l === 1,
+    ...(compact.v !== undefined ? { schemaVersion: compact.v } : {}),
+  };
 }
 
-export function decodeEditorState(encoded?: string | null): unknown {
+/** Decodes links made before the compact format: base64url of the full JSON state. */
+const decodeLegacyState = (bytes: Uint8Array): unknown => {
+  const text = new TextDecoder().decode(bytes);
+  // The browser encoder percent-encoded the JSON before base64; older server links did not.
+  const json = text.startsWith("%") ? decodeURIComponent(text) : text;
+  return JSON.parse(json);
+};
+
+export async function encodeStoredState(state: StoredState): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(compactStoredState(state)));
+  const compress = canCompress();
+  const payload = compress ? await pipeBytes(json, new CompressionStream("deflate-raw")) : json;
+  const bytes = new Uint8Array(payload.length + 1);
+  bytes[0] = compress ? FORMAT_DEFLATE : FORMAT_JSON;
+  bytes.set(payload, 1);
+  return bytesToBase64Url(bytes);
+}
+
+export function encodeEditorState(): Promise<string> {
+  return encodeStoredState(getStoredStateSnapshot());
+}
+
+/** Decodes compact and legacy links alike; null when the payload can't be read. */
+export async function decodeEditorState(encoded?: string | null): Promise<unknown> {
   if (!encoded) return null;
   try {
-    const json = fromBase64Url(encoded);
-    return JSON.parse(json);
+    const bytes = base64UrlToBytes(encoded);
+    const format = bytes[0];
+    if (format === FORMAT_JSON || format === FORMAT_DEFLATE) {
+      const payload = bytes.subarray(1);
+      if (format === FORMAT_DEFLATE && !canCompress()) {
+        throw new Error("This browser can't decompress share links");
+      }
+      const json = format === FORMAT_DEFLATE ? await pipeBytes(payload, new DecompressionStream("deflate-raw")) : payload;
+      const compact: unknown = JSON.parse(new TextDecoder().decode(json));
+      if (!compact || typeof compact !== "object") {
+        throw new Error("Share payload is not an object");
+      }
+      return expandCompactState(compact as CompactState);
+    }
+    return decodeLegacyState(bytes);
   } catch (error) {
     console.warn("Failed to decode editor state", error);
     return null;
   }
 }
 
-export function createShareUrl(): string {
-  const encoded = encodeEditorState();
+export const PLAYER_PATH = "/play";
+
+/** Options read by the `/play` route; see `src/app/play/page.tsx`. */
+export type PlayerOptions = {
+  autoplay: boolean;
+  /** Passes to play before pausing; null loops forever. */
+  loops: number | null;
+  fit: boolean;
+  transparent: boolean;
+  controls: boolean;
+};
+
+export const DEFAULT_PLAYER_OPTIONS: PlayerOptions = {
+  autoplay: true,
+  loops: null,
+  fit: true,
+  transparent: false,
+  controls: true,
+};
+
+const readFlag = (params: URLSearchParams, key: string, fallback: boolean) => {
+  const value = params.get(key);
+  if (value === null) return fallback;
+  return !["0", "false", "no", "off"].includes(value.toLowerCase());
+};
+
+export function readPlayerOptions(params: URLSearchParams): PlayerOptions {
+  const loops = Number(params.get("loops"));
+  return {
+    autoplay: readFlag(params, "autoplay", DEFAULT_PLAYER_OPTIONS.autoplay),
+    loops: Number.isInteger(loops) && loops > 0 ? loops : null,
+    fit: readFlag(params, "fit", DEFAULT_PLAYER_OPTIONS.fit),
+    transparent: readFlag(params, "transparent", DEFAULT_PLAYER_OPTIONS.transparent),
+    controls: readFlag(params, "controls", DEFAULT_PLAYER_OPTIONS.controls),
+  };
+}
+
+export async function createShareUrl(): Promise<string> {
+  const encoded = await encodeEditorState();
   const base = typeof window !== "undefined" ? window.location.href : "http://localhost";
   const url = new URL(base);
   url.searchParams.set(STATE_PARAM, encoded);
   return url.toString();
 }
+
+/** Player link for the current state; only options that differ from the defaults are written. */
+export async function createPlayerUrl(options: Partial<PlayerOptions> = {}): Promise<string> {
+  const encoded = await encodeEditorState();
+  const origin = typeof window !== "undefined" ? window.location.origin : "http://localhost";
+  const url = new URL(PLAYER_PATH, origin);
+  url.searchParams.set(STATE_PARAM, encoded);
+  const resolved = { ...DEFAULT_PLAYER_OPTIONS, ...options };
+  (["autoplay", "fit", "transparent", "controls"] as const).forEach((key) => {
+    if (resolved[key] !== DEFAULT_PLAYER_OPTIONS[key]) url.searchParams.set(key, resolved[key] ? "1" : "0");
+  });
+  if (resolved.loops !== null) url.searchParams.set("loops", String(resolved.loops));
+  return url.toString();
+}
@@ -0,0 +1,198 @@
+import { Blob as NodeBlob } from "node:buffer";
+
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { StoredState } from "./storage";
+
+const LEGACY_STORAGE_KEY = "bw-animator-presets-v1";
+const LEGACY_REJECTED_STORAGE_KEY = "bw-animator-presets-v1-rejected";
+
+const state: StoredState = {
+  effectId: "square-drift",
+  params: { size: 12 },
+  width: 320,
+  height: 240,
+  fps: 12,
+  durationSec: 4,
+  seed: "ABC123",
+  background: "white",
+  invert: false,
+};
+
+// jsdom's Blob loses its contents when IndexedDB clones it; Node's clones like a browser's.
+const createThumbnail = (text: string, type = "image/png") => new NodeBlob([text], { type }) as unknown as Blob;
+
+// storage.ts caches its database connection, so every test loads a fresh copy against a fresh database.
+const loadStorage = async () => {
+  vi.resetModules();
+  return import("./storage");
+};
+
+beforeEach(() => {
+  window.indexedDB = new IDBFactory();
+  window.localStorage.clear();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("legacy migration", () => {
+  it("moves valid localStorage presets into IndexedDB and drops the key", async () => {
+    window.localStorage.setItem(
+      LEGACY_STORAGE_KEY,
+      JSON.stringify([
+        { id: "OLD1", name: "First", data: state, savedAt: 100 },
+        { id: "OLD2", name: "Second", data: { ...state, seed: "XYZ" }, savedAt: 200 },
+      ]),
+    );
+    const storage = await loadStorage();
+
+    const presets = await storage.listPresets();
+
+    expect(presets.map((preset) => preset.id)).toEqual(["OLD2", "OLD1"]);
+    // Fields added after v1 take their defaults.
+    expect(presets[1]).toMatchObject({ createdAt: 100, tags: [], folder: "" });
+    expect(window.localStorage.getItem(LEGACY_STORAGE_KEY)).toBeNull();
+    expect(window.localStorage.getItem(LEGACY_REJECTED_STORAGE_KEY)).toBeNull();
+  });
+
+  it("imports the valid records and backs up the invalid ones", async () => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    const invalid = [
+      { id: "", name: "No id", data: state, savedAt: 100 },
+      { id: "BAD", name: "Bad size", data: { ...state, width: -1 }, savedAt: 100 },
+      "not a record",
+    ];
+    window.localStorage.setItem(
+      LEGACY_STORAGE_KEY,
+      JSON.stringify([{ id: "GOOD", name: "Good", data: state, savedAt: 100 }, ...invalid]),
+    );
+    const storage = await loadStorage();
+
+    const presets = await storage.listPresets();
+
+    expect(presets.map((preset) => preset.id)).toEqual(["GOOD"]);
+    expect(window.localStorage.getItem(LEGACY_STORAGE_KEY)).toBeNull();
+    expect(JSON.parse(window.localStorage.getItem(LEGACY_REJECTED_STORAGE_KEY)!)).toEqual(invalid);
+    const { errorManager } = await import("./errorHandling");
+    expect(errorManager.getErrorLog()[0]).toMatchObject({
+      category: "storage",
+      operation: "migrate-legacy-presets",
+      message: "Skipped 3 invalid legacy preset records",
+      metadata: { rejected: 3, backupKey: LEGACY_REJECTED_STORAGE_KEY },
+    });
+  });
+
+  it("leaves an unreadable legacy key in place for the next load", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    window.localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify({ presets: [] }));
+    const storage = await loadStorage();
+
+    expect(await storage.listPresets()).toEqual([]);
+    expect(window.localStorage.getItem(LEGACY_STORAGE_KEY)).not.toBeNull();
+  });
+
+  it("runs only once", async () => {
+    window.localStorage.setItem(
+      LEGACY_STORAGE_KEY,
+      JSON.stringify([{ id: "OLD1", name: "First", data: state, savedAt: 100 }]),
+    );
+    await (await loadStorage()).listPresets();
+
+    const reloaded = await loadStorage();
+    expect(await reloaded.listPresets()).toHaveLength(1);
+  });
+});
+
+describe("preset records", () => {
+  it("saves a preset with normalized details", async () => {
+    const storage = await loadStorage();
+
+    const saved = await storage.savePreset("  Drift  ", state, undefined, { tags: [" a ", "A", "b"], folder: " x " });
+
+    expect(saved).toMatchObject({ name: "Drift", data: state, tags: ["a", "b"], folder: "x" });
+    expect(await storage.listPresets()).toEqual([saved]);
+  });
+
+  it("names unnamed presets by count", async () => {
+    const storage = await loadStorage();
+    await storage.savePreset("First", state);
+
+    const saved = await storage.savePreset("   ", state);
+
+    expect(saved?.name).toBe("Preset 2");
+  });
+
+  it("overwrites state and save time but keeps identity and creation time", async () => {
+    const storage = await loadStorage();
+    const saved = (await storage.savePreset("Drift", state))!;
+    const nextState = { ...state, seed: "NEW" };
+    vi.spyOn(Date, "now").mockReturnValue(saved.savedAt + 1000);
+
+    expect(await storage.updatePreset(saved.id, "", nextState)).toBe(true);
+
+    const [updated] = await storage.listPresets();
+    expect(updated).toMatchObject({
+      id: saved.id,
+      name: "Drift",
+      data: nextState,
+      createdAt: saved.createdAt,
+      savedAt: saved.savedAt + 1000,
+    });
+  });
+
+  it("deletes a preset and its thumbnail", async () => {
+    const storage = await loadStorage();
+    const saved = (await storage.savePreset("Drift", state, createThumbnail("png")))!;
+
+    expect(await storage.deletePreset(saved.id)).toBe(true);
+
+    expect(await storage.listPresets()).toEqual([]);
+    expect(await storage.getPresetThumbnail(saved.id)).toBeNull();
+  });
+
+  it("reports missing presets instead of writing them", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const storage = await loadStorage();
+
+    expect(await storage.updatePreset("MISSING", "Name", state)).toBe(false);
+    expect(await storage.deletePreset("MISSING")).toBe(false);
+    expect(await storage.listPresets()).toEqual([]);
+  });
+});
+
+describe("thumbnails", () => {
+  it("stores the thumbnail saved with a preset", async () => {
+    const storage = await loadStorage();
+    const saved = (await storage.savePreset("Drift", state, createThumbnail("first")))!;
+
+    const thumbnail = await storage.getPresetThumbnail(saved.id);
+
+    expect(thumbnail?.type).toBe("image/png");
+    expect(await thumbnail?.text()).toBe("first");
+  });
+
+  it("replaces a thumbnail without touching the preset", async () => {
+    const storage = await loadStorage();
+    const saved = (await storage.savePreset("Drift", state))!;
+    expect(await storage.getPresetThumbnail(saved.id)).toBeNull();
+
+    expect(await storage.setPresetThumbnail(saved.id, createThumbnail("second"))).toBe(true);
+
+    expect(await (await storage.getPresetThumbnail(saved.id))?.text()).toBe("second");
+    expect(await storage.listPresets()).toEqual([saved]);
+  });
+
+  it("copies the thumbnail along with a duplicated preset", async () => {
+    const storage = await loadStorage();
+    const saved = (await storage.savePreset("Drift", state, createThumbnail("image")))!;
+
+    const copy = (await storage.duplicatePreset(saved.id))!;
+
+    expect(copy).toMatchObject({ name: "Drift copy", data: state });
+    expect(copy.id).not.toBe(saved.id);
+    expect(await (await storage.getPresetThumbnail(copy.id))?.text()).toBe("image");
+  });
+});
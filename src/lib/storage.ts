@@ -1,6 +1,16 @@
-import { createStorageError, safeSyncOperation, errorManager } from "./errorHandling";
+import type { EffectLayer } from "@/effects/types";
+import { createStorageError, safeOperation, errorManager } from "./errorHandling";
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from "./idb";
+import { parsePresetRecord } from "./presetSchema";
 
-const STORAGE_KEY = "bw-animator-presets-v1";
+const DATABASE_NAME = "bw-animator-library";
+const DATABASE_VERSION = 2;
+const PRESET_STORE = "presets";
+const THUMBNAIL_STORE = "thumbnails";
+/** The localStorage array used before the IndexedDB library; migrated once, then removed. */
+const LEGACY_STORAGE_KEY = "bw-animator-presets-v1";
+/** Legacy records that failed validation, kept as they were so they can still be recovered by hand. */
+const LEGACY_REJECTED_STORAGE_KEY = "bw-animator-presets-v1-rejected";
 
 export type StoredState = {
   effectId: string;
@@ -12,124 +22,194 @@ export type StoredState = {
   seed: string;
   background: "white" | "black";
   invert: boolean;
+  /** Layer stack, bottom to top. Older records only carry `effectId`/`params`. */
+  layers?: EffectLayer[];
+  activeLayerId?: string;
+  loopMode?: boolean;
+  /** Absent on state saved before versioning; see `src/lib/migrations.ts`. */
+  schemaVersion?: number;
 };
 
 type PresetRecord = {
   id: string;
   name: string;
   data: StoredState;
+  /** Last save; moves forward when the preset is overwritten. */
   savedAt: number;
+  createdAt: number;
+  tags: string[];
+  /** Folder name; "" keeps the preset at the top level. */
+  folder: string;
 };
 
-function isBrowser() {
-  return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
-}
+export type PresetDetails = Pick<PresetRecord, "name" | "tags" | "folder">;
 
-function readRaw(): PresetRecord[] {
-  if (!isBrowser()) return [];
+/** Trims and de-duplicates tags, case-insensitively, keeping the first spelling. */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
 
-  return safeSyncOperation(
-    () => {
-      const raw = window.localStorage.getItem(STORAGE_KEY);
-      if (!raw) return [];
+let databasePromise: Promise<IDBDatabase> | null = null;
 
-      const parsed = JSON.parse(raw);
-      if (!Array.isArray(parsed)) {
-        throw new Error("Invalid presets format: not an array");
+function upgradeDatabase(db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) {
+  if (oldVersion < 1) {
+    const presets = db.createObjectStore(PRESET_STORE, { keyPath: "id" });
+    presets.createIndex("savedAt", "savedAt");
+    // Keyed by preset id; kept apart so listing presets doesn't load every image.
+    db.createObjectStore(THUMBNAIL_STORE);
+  }
+  if (oldVersion >= 1 && oldVersion < 2) {
+    // v2 records carry createdAt, tags and folder.
+    const cursorRequest = transaction.objectStore(PRESET_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const result = parsePresetRecord(cursor.value);
+      if ("record" in result) {
+        cursor.update(result.record);
       }
+      cursor.continue();
+    };
+  }
+}
 
-      // Validate and filter records
-      const validRecords = parsed.filter((item): item is PresetRecord => {
-        return item &&
-               typeof item === "object" &&
-               typeof item.id === "string" &&
-               typeof item.name === "string" &&
-               item.data &&
-               typeof item.savedAt === "number";
-      });
+async function migrateLegacyPresets(db: IDBDatabase) {
+  const raw = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return;
 
-      if (validRecords.length !== parsed.length) {
-        console.warn(`Filtered out ${parsed.length - validRecords.length} invalid preset records`);
-      }
+  const parsed: unknown = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error("Invalid legacy presets format: not an array");
+  }
+  const records: PresetRecord[] = [];
+  const rejected: unknown[] = [];
+  parsed.forEach((item: unknown) => {
+    const result = parsePresetRecord(item);
+    if ("record" in result) {
+      records.push(result.record);
+    } else {
+      rejected.push(item);
+    }
+  });
+  if (rejected.length > 0) {
+    // Throws before anything is removed when there is no room for the backup.
+    window.localStorage.setItem(LEGACY_REJECTED_STORAGE_KEY, JSON.stringify(rejected));
+  }
 
-      return validRecords;
-    },
-    [], // fallback
-    {
-      category: "storage",
-      operation: "read-presets",
-      severity: "low"
+  const transaction = db.transaction(PRESET_STORE, "readwrite");
+  const store = transaction.objectStore(PRESET_STORE);
+  records.forEach((record) => store.put(record));
+  await transactionDone(transaction);
+  // Only drop the old copy once every record is committed or backed up.
+  window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+
+  if (rejected.length > 0) {
+    errorManager.handleError(
+      createStorageError(
+        "migrate-legacy-presets",
+        new Error(`Skipped ${rejected.length} invalid legacy preset records`),
+        { rejected: rejected.length, backupKey: LEGACY_REJECTED_STORAGE_KEY },
+      ),
+    );
+  }
+}
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  databasePromise ??= (async () => {
+    const db = await openDatabase(DATABASE_NAME, DATABASE_VERSION, upgradeDatabase);
+    try {
+      await migrateLegacyPresets(db);
+    } catch (error) {
+      // Leave the legacy key in place so the next load can retry.
+      errorManager.handleError(createStorageError("migrate-legacy-presets", error as Error));
     }
-  );
+    return db;
+  })().catch((error) => {
+    databasePromise = null;
+    throw error;
+  });
+  return databasePromise;
 }
 
-function writeRaw(records: PresetRecord[]): boolean {
-  if (!isBrowser()) return false;
+async function getRecord(db: IDBDatabase, id: string): Promise<PresetRecord | undefined> {
+  const transaction = db.transaction(PRESET_STORE, "readonly");
+  return requestToPromise<PresetRecord | undefined>(transaction.objectStore(PRESET_STORE).get(id));
+}
 
-  return safeSyncOperation(
-    () => {
-      // Validate input
-      if (!Array.isArray(records)) {
-        throw new Error("Invalid records: must be an array");
-      }
+async function putRecord(db: IDBDatabase, record: PresetRecord, thumbnail?: Blob) {
+  const stores = thumbnail ? [PRESET_STORE, THUMBNAIL_STORE] : [PRESET_STORE];
+  const transaction = db.transaction(stores, "readwrite");
+  transaction.objectStore(PRESET_STORE).put(record);
+  if (thumbnail) {
+    transaction.objectStore(THUMBNAIL_STORE).put(thumbnail, record.id);
+  }
+  await transactionDone(transaction);
+}
 
-      const serialized = JSON.stringify(records);
+function randomId() {
+  return Math.random().toString(36).slice(2, 8).toUpperCase();
+}
 
-      // Check storage quota (5MB limit)
-      if (serialized.length > 5 * 1024 * 1024) {
-        throw createStorageError("write-presets",
-          new Error("Presets too large for storage"),
-          { size: serialized.length, limit: 5 * 1024 * 1024 });
-      }
+export async function listPresets(): Promise<PresetRecord[]> {
+  if (!isIndexedDbAvailable()) return [];
 
-      // Check available storage space
-      try {
-        const testKey = STORAGE_KEY + "-test";
-        window.localStorage.setItem(testKey, serialized);
-        window.localStorage.removeItem(testKey);
-      } catch (quotaError) {
-        throw createStorageError("write-presets",
-          new Error("Storage quota exceeded"),
-          { requestedSize: serialized.length });
+  return safeOperation(
+    async () => {
+      const db = await getDatabase();
+      const transaction = db.transaction(PRESET_STORE, "readonly");
+      const raw = await requestToPromise<unknown[]>(transaction.objectStore(PRESET_STORE).getAll());
+
+      const records = raw.flatMap((item) => {
+        const result = parsePresetRecord(item);
+        return "record" in result ? [result.record] : [];
+      });
+      if (records.length !== raw.length) {
+        console.warn(`Filtered out ${raw.length - records.length} invalid preset records`);
       }
 
-      window.localStorage.setItem(STORAGE_KEY, serialized);
-      return true;
+      return records.sort((a, b) => b.savedAt - a.savedAt);
     },
-    false, // fallback
+    [], // fallback
     {
       category: "storage",
-      operation: "write-presets",
-      severity: "medium",
-      metadata: { recordCount: records.length }
+      operation: "read-presets",
+      severity: "low"
     }
   );
 }
 
-function randomId() {
-  return Math.random().toString(36).slice(2, 8).toUpperCase();
-}
-
-export function listPresets(): PresetRecord[] {
-  return readRaw().sort((a, b) => b.savedAt - a.savedAt);
-}
-
-export function savePreset(name: string, data: StoredState): PresetRecord | null {
+export async function savePreset(
+  name: string,
+  data: StoredState,
+  thumbnail?: Blob,
+  details: Partial<Omit<PresetDetails, "name">> = {},
+): Promise<PresetRecord | null> {
   try {
-    const records = readRaw();
-    const id = randomId();
+    const db = await getDatabase();
+    const count = await requestToPromise(db.transaction(PRESET_STORE, "readonly").objectStore(PRESET_STORE).count());
+    const now = Date.now();
     const preset: PresetRecord = {
-      id,
-      name: name.trim() || `Preset ${records.length + 1}`,
+      id: randomId(),
+      name: name.trim() || `Preset ${count + 1}`,
       data,
-      savedAt: Date.now(),
+      savedAt: now,
+      createdAt: now,
+      tags: normalizeTags(details.tags ?? []),
+      folder: details.folder?.trim() ?? "",
     };
 
-    const success = writeRaw([preset, ...records]);
-    if (!success) {
-      throw new Error("Failed to save preset to storage");
-    }
-
+    await putRecord(db, preset, thumbnail);
     return preset;
   } catch (error) {
     errorManager.handleError(createStorageError("save-preset", error as Error, {
@@ -140,26 +220,16 @@ export function savePreset(name: string, data: StoredState): PresetRecord | null
   }
 }
 
-export function updatePreset(id: string, name: string, data: StoredState): boolean {
+export async function updatePreset(id: string, name: string, data: StoredState, thumbnail?: Blob): Promise<boolean> {
   try {
-    const records = readRaw();
-    const targetIndex = records.findIndex(record => record.id === id);
+    const db = await getDatabase();
+    const record = await getRecord(db, id);
 
-    if (targetIndex === -1) {
+    if (!record) {
       throw new Error(`Preset with id '${id}' not found`);
     }
 
-    const next = records.map((record) =>
-      record.id === id
-        ? { ...record, name: name.trim() || record.name, data, savedAt: Date.now() }
-        : record,
-    );
-
-    const success = writeRaw(next);
-    if (!success) {
-      throw new Error("Failed to update preset in storage");
-    }
-
+    await putRecord(db, { ...record, name: name.trim() || record.name, data, savedAt: Date.now() }, thumbnail);
     return true;
   } catch (error) {
     errorManager.handleError(createStorageError("update-preset", error as Error, {
@@ -170,21 +240,110 @@ export function updatePreset(id: string, name: string, data: StoredState): boole
   }
 }
 
-export function deletePreset(id: string): boolean {
+/** Renames, re-tags or moves a preset without touching its state or save time. */
+export async function updatePresetDetails(id: string, details: Partial<PresetDetails>): Promise<PresetRecord | null> {
   try {
-    const records = readRaw();
-    const initialCount = records.length;
-    const filtered = records.filter((record) => record.id !== id);
+    const db = await getDatabase();
+    const record = await getRecord(db, id);
 
-    if (filtered.length === initialCount) {
+    if (!record) {
       throw new Error(`Preset with id '${id}' not found`);
     }
 
-    const success = writeRaw(filtered);
-    if (!success) {
-      throw new Error("Failed to delete preset from storage");
+    const next: PresetRecord = {
+      ...record,
+      name: details.name?.trim() || record.name,
+      tags: details.tags ? normalizeTags(details.tags) : record.tags,
+      folder: details.folder !== undefined ? details.folder.trim() : record.folder,
+    };
+    await putRecord(db, next);
+    return next;
+  } catch (error) {
+    errorManager.handleError(createStorageError("update-preset-details", error as Error, {
+      presetId: id
+    }));
+    return null;
+  }
+}
+
+/** Copies a preset and its thumbnail under a new id. */
+export async function duplicatePreset(id: string): Promise<PresetRecord | null> {
+  try {
+    const db = await getDatabase();
+    const record = await getRecord(db, id);
+
+    if (!record) {
+      throw new Error(`Preset with id '${id}' not found`);
     }
 
+    const thumbnail = await requestToPromise<Blob | undefined>(
+      db.transaction(THUMBNAIL_STORE, "readonly").objectStore(THUMBNAIL_STORE).get(id),
+    );
+    const now = Date.now();
+    const copy: PresetRecord = {
+      ...record,
+      id: randomId(),
+      name: `${record.name} copy`,
+      tags: [...record.tags],
+      savedAt: now,
+      createdAt: now,
+    };
+    await putRecord(db, copy, thumbnail);
+    return copy;
+  } catch (error) {
+    errorManager.handleError(createStorageError("duplicate-preset", error as Error, {
+      presetId: id
+    }));
+    return null;
+  }
+}
+
+/**
+ * Adds already-validated records, keeping their names and timestamps. Ids that
+ * collide with existing presets are replaced so imports never overwrite.
+ */
+export async function importPresets(incoming: PresetRecord[]): Promise<PresetRecord[]> {
+  try {
+    const db = await getDatabase();
+    const keys = await requestToPromise(db.transaction(PRESET_STORE, "readonly").objectStore(PRESET_STORE).getAllKeys());
+    const ids = new Set(keys.map(String));
+    const imported = incoming.map((record) => {
+      let id = record.id;
+      while (ids.has(id)) {
+        id = randomId();
+      }
+      ids.add(id);
+      return { ...record, id };
+    });
+
+    const transaction = db.transaction(PRESET_STORE, "readwrite");
+    const store = transaction.objectStore(PRESET_STORE);
+    imported.forEach((record) => store.put(record));
+    await transactionDone(transaction);
+
+    return imported;
+  } catch (error) {
+    errorManager.handleError(createStorageError("import-presets", error as Error, {
+      recordCount: incoming.length
+    }));
+    return [];
+  }
+}
+
+export async function deletePreset(id: string): Promise<boolean> {
+  try {
+    const db = await getDatabase();
+    const record = await getRecord(db, id);
+
+    if (!record) {
+      throw new Error(`Preset with id '${id}' not found`);
+    }
+
+    const transaction = db.transaction([PRESET_STORE, THUMBNAIL_STORE], "readwrite");
+    transaction.objectStore(PRESET_STORE).delete(id);
+    transaction.objectStore(THUMBNAIL_STORE).delete(id);
+    await transactionDone(transaction);
+
     return true;
   } catch (error) {
     errorManager.handleError(createStorageError("delete-preset", error as Error, {
@@ -193,4 +352,64 @@ export function deletePreset(id: string): boolean {
     return false;
   }
 }
+
+export async function getPresetThumbnail(id: string): Promise<Blob | null> {
+  if (!isIndexedDbAvailable()) return null;
+
+  return safeOperation(
+    async () => {
+      const db = await getDatabase();
+      const transaction = db.transaction(THUMBNAIL_STORE, "readonly");
+      const blob = await requestToPromise<Blob | undefined>(transaction.objectStore(THUMBNAIL_STORE).get(id));
+      return blob ?? null;
+    },
+    null,
+    {
+      category: "storage",
+      operation: "read-thumbnail",
+      severity: "low",
+      metadata: { presetId: id }
+    }
+  );
+}
+
+export async function setPresetThumbnail(id: string, thumbnail: Blob): Promise<boolean> {
+  try {
+    const db = await getDatabase();
+    const transaction = db.transaction(THUMBNAIL_STORE, "readwrite");
+    transaction.objectStore(THUMBNAIL_STORE).put(thumbnail, id);
+    await transactionDone(transaction);
+    return true;
+  } catch (error) {
+    errorManager.handleError(createStorageError("write-thumbnail", error as Error, {
+      presetId: id,
+      size: thumbnail.size
+    }));
+    return false;
+  }
+}
+
+export type StorageUsage = {
+  usageBytes: number;
+  quotaBytes: number;
+};
+
+/** Origin-wide usage as estimated by the browser; null where the API is missing. */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+
+  return safeOperation(
+    async () => {
+      const estimate = await navigator.storage.estimate();
+      return { usageBytes: estimate.usage ?? 0, quotaBytes: estimate.quota ?? 0 };
+    },
+    null,
+    {
+      category: "storage",
+      operation: "estimate-storage",
+      severity: "low"
+    }
+  );
+}
+
 export type { PresetRecord };
@@ -0,0 +1,206 @@
+import { ArrayBufferTarget, Muxer } from "webm-muxer";
+
+import type { ExportConfig } from "@/components/CanvasHost";
+import { renderExportFrames, type ExportOptions } from "@/lib/exportFrames";
+
+const WEBM_MIME_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+/** WebCodecs encoder configs to try, best first, with the WebM codec id each one muxes as. */
+const ENCODER_CODECS = [
+  { codec: "vp09.00.10.08", muxerCodec: "V_VP9" },
+  { codec: "vp8", muxerCodec: "V_VP8" },
+];
+
+/** Seconds between key frames, so players can seek without decoding from the start. */
+const KEY_FRAME_INTERVAL_SEC = 2;
+/** Frames the encoder may hold before rendering waits for it to catch up. */
+const MAX_QUEUED_FRAMES = 8;
+
+export type VideoExportOptions = ExportOptions & {
+  bitsPerSecond?: number;
+};
+
+export function getSupportedWebmMimeType(): string | null {
+  if (typeof MediaRecorder === "undefined") return null;
+  return WEBM_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+const isWebCodecsSupported = () => typeof VideoEncoder !== "undefined" && typeof VideoFrame !== "undefined";
+
+const isRecorderSupported = () =>
+  getSupportedWebmMimeType() !== null &&
+  typeof HTMLCanvasElement !== "undefined" &&
+  typeof HTMLCanvasElement.prototype.captureStream === "function";
+
+export function isVideoExportSupported(): boolean {
+  return isWebCodecsSupported() || isRecorderSupported();
+}
+
+const getBitsPerSecond = (config: ExportConfig, options: VideoExportOptions) =>
+  options.bitsPerSecond ?? Math.min(40_000_000, Math.max(2_000_000, config.width * config.height * config.fps * 0.2));
+
+async function findEncoderConfig(config: ExportConfig, bitrate: number) {
+  for (const { codec, muxerCodec } of ENCODER_CODECS) {
+    const encoderConfig: VideoEncoderConfig = {
+      codec,
+      width: config.width,
+      height: config.height,
+      bitrate,
+      framerate: Math.max(1, config.fps),
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(encoderConfig).catch(() => ({ supported: false }));
+    if (supported) return { encoderConfig, muxerCodec };
+  }
+  return null;
+}
+
+const waitForDequeue = (encoder: VideoEncoder) =>
+  new Promise<void>((resolve) => encoder.addEventListener("dequeue", () => resolve(), { once: true }));
+
+/**
+ * Encodes every frame with WebCodecs, stamping frame N at exactly N / fps
+ * seconds, and muxes the chunks into a WebM file. Timing comes from the frame
+ * index alone, so render speed never shows in the output.
+ */
+async function encodeWebm(
+  config: ExportConfig,
+  options: VideoExportOptions,
+  codecs: NonNullable<Awaited<ReturnType<typeof findEncoderConfig>>>,
+): Promise<Blob> {
+  const fps = Math.max(1, config.fps);
+  const frameDurationUs = 1_000_000 / fps;
+  const keyFrameInterval = Math.max(1, Math.round(fps * KEY_FRAME_INTERVAL_SEC));
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: codecs.muxerCodec, width: config.width, height: config.height, frameRate: fps },
+    firstTimestampBehavior: "strict",
+  });
+  let encoderError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+  encoder.configure(codecs.encoderConfig);
+
+  try {
+    await renderExportFrames(
+      config,
+      async (canvas, frameIndex) => {
+        if (encoderError) throw encoderError;
+        const frame = new VideoFrame(canvas, {
+          timestamp: Math.round(frameIndex * frameDurationUs),
+          duration: Math.round(frameDurationUs),
+        });
+        try {
+          encoder.encode(frame, { keyFrame: frameIndex % keyFrameInterval === 0 });
+        } finally {
+          frame.close();
+        }
+        while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+          await waitForDequeue(encoder);
+        }
+      },
+      options,
+    );
+    await encoder.flush();
+    if (encoderError) throw encoderError;
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: "video/webm" });
+}
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const waitForRecorderEvent = (recorder: MediaRecorder, event: "start" | "pause" | "resume" | "stop") =>
+  new Promise<void>((resolve) => recorder.addEventListener(event, () => resolve(), { once: true }));
+
+/**
+ * Fallback for browsers without WebCodecs: records the loop with MediaRecorder
+ * without depending on real-time playback speed.
+ *
+ * The recorder stays paused while a frame renders, then resumes while the frame
+ * is pushed with `requestFrame()`. Paused time is excluded from the recording's
+ * timeline, so slow frames never stretch or drop. Each resume lasts until the
+ * recording reaches the frame's end on a fixed `1000 / fps` timeline, so timer
+ * jitter on one frame is taken back on the next instead of adding up.
+ */
+async function recordWebm(config: ExportConfig, options: VideoExportOptions): Promise<Blob> {
+  const mimeType = getSupportedWebmMimeType();
+  if (!mimeType || !isRecorderSupported()) {
+    throw new Error("WebM recording is not supported in this browser");
+  }
+
+  const frameDurationMs = 1000 / Math.max(1, config.fps);
+  const bitsPerSecond = getBitsPerSecond(config, options);
+  const chunks: Blob[] = [];
+  let recorder: MediaRecorder | null = null;
+  let track: CanvasCaptureMediaStreamTrack | null = null;
+  // Time the recorder has spent resumed, i.e. the length of the recording so far.
+  let recordedMs = 0;
+
+  const startRecorder = async (canvas: HTMLCanvasElement) => {
+    // A frame rate of 0 means frames are only captured when requestFrame() is called.
+    const stream = canvas.captureStream(0);
+    track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: bitsPerSecond });
+    recorder.addEventListener("dataavailable", (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    });
+    const started = waitForRecorderEvent(recorder, "start");
+    recorder.start();
+    await started;
+    const paused = waitForRecorderEvent(recorder, "pause");
+    recorder.pause();
+    await paused;
+  };
+
+  try {
+    await renderExportFrames(
+      config,
+      async (canvas, frameIndex) => {
+        if (frameIndex === 0) {
+          await startRecorder(canvas);
+        }
+        if (!recorder || !track) return;
+
+        const resumed = waitForRecorderEvent(recorder, "resume");
+        recorder.resume();
+        await resumed;
+        const resumedAt = performance.now();
+        track.requestFrame();
+        await wait(Math.max(0, (frameIndex + 1) * frameDurationMs - recordedMs));
+        const paused = waitForRecorderEvent(recorder, "pause");
+        recorder.pause();
+        await paused;
+        recordedMs += performance.now() - resumedAt;
+      },
+      options,
+    );
+  } finally {
+    const activeRecorder = recorder as MediaRecorder | null;
+    if (activeRecorder && activeRecorder.state !== "inactive") {
+      const stopped = waitForRecorderEvent(activeRecorder, "stop");
+      activeRecorder.stop();
+      await stopped;
+    }
+    (track as CanvasCaptureMediaStreamTrack | null)?.stop();
+  }
+
+  return new Blob(chunks, { type: "video/webm" });
+}
+
+/**
+ * Exports the loop as WebM with frame-exact timing. Encodes through WebCodecs
+ * with explicit timestamps where the browser supports it and falls back to
+ * MediaRecorder otherwise.
+ */
+export async function exportWebm(config: ExportConfig, options: VideoExportOptions = {}): Promise<Blob> {
+  const codecs = isWebCodecsSupported() ? await findEncoderConfig(config, getBitsPerSecond(config, options)) : null;
+  if (codecs) return encodeWebm(config, options, codecs);
+  return recordWebm(config, options);
+}
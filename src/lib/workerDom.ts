@@ -0,0 +1,64 @@
+/**
+ * The slice of `window`/`document` p5 touches while booting and drawing, backed
+ * by OffscreenCanvas so sketches can run inside a worker. Canvases are real;
+ * everything DOM-only (styles, classes, attaching elements) is accepted and ignored.
+ */
+
+const noop = () => {};
+
+const createElementStub = () => ({
+  style: {},
+  dataset: {},
+  classList: { add: noop, remove: noop, contains: () => false },
+  appendChild: noop,
+  removeChild: noop,
+  remove: noop,
+  setAttribute: noop,
+  removeAttribute: noop,
+  addEventListener: noop,
+  removeEventListener: noop,
+  getBoundingClientRect: () => ({ left: 0, top: 0, width: 0, height: 0 }),
+});
+
+const createCanvas = () => {
+  const canvas = new OffscreenCanvas(1, 1);
+  const { addEventListener, removeEventListener } = canvas;
+  // OffscreenCanvas is an EventTarget already; keep its listeners and add the element-only members.
+  return Object.assign(canvas, createElementStub(), {
+    addEventListener: addEventListener.bind(canvas),
+    removeEventListener: removeEventListener.bind(canvas),
+  });
+};
+
+/** Container for `new p5(sketch, node)` so p5 never looks for a `<main>` element. */
+export const createWorkerNode = () => createElementStub() as unknown as HTMLElement;
+
+/** Installs the globals once; a no-op where a real `document` exists. */
+export function installWorkerDom() {
+  const scope = globalThis as unknown as Record<string, unknown>;
+  if (typeof scope.document !== "undefined") return;
+
+  scope.window = globalThis;
+  scope.devicePixelRatio = 1;
+  scope.innerWidth = 0;
+  scope.innerHeight = 0;
+  scope.screen = { width: 0, height: 0 };
+  // createCanvas/createGraphics accept an existing canvas and tell it apart with instanceof.
+  scope.HTMLCanvasElement ??= OffscreenCanvas;
+  const body = createElementStub();
+  scope.document = {
+    readyState: "complete",
+    createElement: (tag: string) => (tag.toLowerCase() === "canvas" ? createCanvas() : createElementStub()),
+    createElementNS: (_namespace: string, tag: string) =>
+      tag.toLowerCase() === "canvas" ? createCanvas() : createElementStub(),
+    // p5 parents graphics buffers to `<main>`; the body stands in for every lookup.
+    getElementsByTagName: () => [body],
+    getElementById: () => null,
+    querySelector: () => null,
+    body,
+    documentElement: { ...createElementStub(), clientWidth: 0, clientHeight: 0 },
+    hasFocus: () => false,
+    addEventListener: noop,
+    removeEventListener: noop,
+  };
+}
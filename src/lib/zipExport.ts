@@ -0,0 +1,72 @@
+import JSZip from "jszip";
+
+import type { ExportConfig } from "@/components/CanvasHost";
+import { getTotalFrames, renderExportFrames, type ExportOptions } from "@/lib/exportFrames";
+
+export const FRAME_PREFIX = "frame_";
+export const FRAME_START_NUMBER = 1;
+
+export type FrameSequenceManifest = {
+  format: "png-sequence";
+  version: 1;
+  frameCount: number;
+  startNumber: number;
+  pattern: string;
+  files: string[];
+  config: ExportConfig;
+};
+
+// Never fewer than four digits so names stay stable across short and long exports.
+export const getFramePadding = (totalFrames: number) =>
+  Math.max(4, String(totalFrames - 1 + FRAME_START_NUMBER).length);
+
+export const getFrameFilename = (frameIndex: number, padding: number) =>
+  `${FRAME_PREFIX}${String(frameIndex + FRAME_START_NUMBER).padStart(padding, "0")}.png`;
+
+const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error("Canvas could not be encoded as PNG"));
+      }
+    }, "image/png");
+  });
+
+/**
+ * Bundles every frame as a lossless PNG plus a manifest.json holding the exact
+ * ExportConfig, so a sequence can be re-rendered or fed to ffmpeg
+ * (`-start_number 1 -i frame_%04d.png`).
+ */
+export async function exportPngSequence(config: ExportConfig, options: ExportOptions = {}): Promise<Blob> {
+  const zip = new JSZip();
+  const totalFrames = getTotalFrames(config);
+  const padding = getFramePadding(totalFrames);
+  const files: string[] = [];
+
+  await renderExportFrames(
+    config,
+    async (canvas, frameIndex) => {
+      const filename = getFrameFilename(frameIndex, padding);
+      const png = await canvasToPng(canvas);
+      zip.file(filename, png);
+      files.push(filename);
+    },
+    options,
+  );
+
+  const manifest: FrameSequenceManifest = {
+    format: "png-sequence",
+    version: 1,
+    frameCount: totalFrames,
+    startNumber: FRAME_START_NUMBER,
+    pattern: `${FRAME_PREFIX}%0${padding}d.png`,
+    files,
+    config,
+  };
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+
+  // PNGs are already deflated; storing them avoids a slow second compression pass.
+  return zip.generateAsync({ type: "blob", compression: "STORE" });
+}
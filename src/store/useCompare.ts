@@ -0,0 +1,39 @@
+"use client";
+
+import { create } from "zustand";
+
+import { getEditorSnapshot, useEditorStore, type EditorSnapshot } from "@/store/useEditor";
+
+export type CompareTarget = {
+  label: string;
+  snapshot: EditorSnapshot;
+};
+
+type CompareState = {
+  /** Rendered on the right of the divider; null while compare mode is off. */
+  target: CompareTarget | null;
+  /** Divider position as a share of the canvas width. */
+  split: number;
+  pin: (target: CompareTarget) => void;
+  setSplit: (split: number) => void;
+  /** Loads the pinned state into the editor and pins what was there. */
+  swap: () => void;
+  clear: () => void;
+};
+
+export const useCompareStore = create<CompareState>((set, get) => ({
+  target: null,
+  split: 0.5,
+  pin: (target) => set({ target }),
+  setSplit: (split) => set({ split: Math.max(0, Math.min(1, split)) }),
+  swap: () => {
+    const { target } = get();
+    if (!target) return;
+    const editor = useEditorStore.getState();
+    const current = getEditorSnapshot(editor);
+    // One store update, so the swap is a single undo step.
+    editor.restoreSnapshot(target.snapshot);
+    set({ target: { label: "Before swap", snapshot: current } });
+  },
+  clear: () => set({ target: null }),
+}));
@@ -2,15 +2,37 @@
 
 import { create } from "zustand";
 import { effects, getEffect } from "@/effects";
-import type { ParamValues, ParamValue } from "@/effects/types";
+import type { EffectLayer, Keyframe, ParamValues, ParamValue } from "@/effects/types";
+import { isBlendMode } from "@/lib/compositor";
+import type { EasingType } from "@/lib/easing";
+import {
+  evaluateLayerParams,
+  evaluateTrack,
+  findKeyframe,
+  removeKeyframe,
+  sanitizeKeyframes,
+  setNearestKeyframeValue,
+  upsertKeyframe,
+  withTrack,
+} from "@/lib/keyframes";
+import { getFrameCount } from "@/lib/loop";
+import { CURRENT_SCHEMA_VERSION, migrateStoredState } from "@/lib/migrations";
+import { randomizeParamValues, type RandomizeOptions } from "@/lib/paramRandomizer";
+import { validateStoredState } from "@/lib/paramValidation";
+import type { QualitySettings } from "@/lib/qualityManager";
 import { generateSeed } from "@/lib/rng";
 import type { StoredState } from "@/lib/storage";
+import { useNotificationStore } from "@/store/useNotifications";
 
 export type Background = "white" | "black";
 
 type EditorState = {
+  /** Effect of the active layer; mirrors `layers` for single-effect consumers. */
   effectId: string;
+  /** Params of the active layer; mirrors `layers` for single-effect consumers. */
   params: ParamValues;
+  layers: EffectLayer[];
+  activeLayerId: string;
   width: number;
   height: number;
   fps: number;
@@ -18,27 +40,158 @@ type EditorState = {
   seed: string;
   background: Background;
   invert: boolean;
+  /** Drive loop-safe effects from the loop phase so exports loop seamlessly. */
+  loopMode: boolean;
   enableWarnings: boolean;
   playing: boolean;
   currentFrame: number;
+  /** First frame of the playback range; null starts at frame 0. */
+  loopIn: number | null;
+  /** Last frame (inclusive) of the playback range; null ends at the last frame. */
+  loopOut: number | null;
+  /** Pending seek for the preview runtime; a new object per request so repeats still fire. */
+  seekRequest: { frame: number } | null;
+  /** Param keys the randomizer skips, per effect id; not part of saved or shared state. */
+  lockedParams: Record<string, string[]>;
+  /** Resolution and frame-rate cap the live preview runs at; null until it starts. Exports ignore it. */
+  previewQuality: QualitySettings | null;
   setSize: (width: number, height: number) => void;
   setFps: (fps: number) => void;
   setDuration: (seconds: number) => void;
   setEffectId: (id: string) => void;
   setParam: (key: string, value: ParamValue) => void;
+  toggleKeyframe: (key: string, frame: number) => void;
+  setKeyframeEasing: (key: string, frame: number, easing: EasingType) => void;
+  clearKeyframes: (key: string) => void;
+  toggleParamLock: (key: string) => void;
+  /** Rerolls the active layer's unlocked params; see `src/lib/paramRandomizer.ts`. */
+  randomizeParams: (options: Omit<RandomizeOptions, "locked">) => void;
+  addLayer: (effectId?: string) => void;
+  removeLayer: (id: string) => void;
+  updateLayer: (id: string, patch: Partial<Omit<EffectLayer, "id">>) => void;
+  selectLayer: (id: string) => void;
+  moveLayer: (id: string, toIndex: number) => void;
+  duplicateLayer: (id: string) => void;
   setPlaying: (playing: boolean) => void;
   togglePlaying: () => void;
   setSeed: (seed: string) => void;
   randomizeSeed: () => void;
   setBackground: (value: Background) => void;
   toggleInvert: () => void;
+  toggleLoopMode: () => void;
   toggleWarnings: () => void;
   setCurrentFrame: (frame: number) => void;
+  setPreviewQuality: (settings: QualitySettings) => void;
+  seekTo: (frame: number) => void;
+  stepFrame: (delta: number) => void;
+  setLoopIn: (frame: number | null) => void;
+  setLoopOut: (frame: number | null) => void;
   loadFromStoredState: (snapshot: StoredState) => void;
+  restoreSnapshot: (snapshot: EditorSnapshot) => void;
 };
 
+/** The undoable part of the editor state. */
+export type EditorSnapshot = Pick<
+  EditorState,
+  "layers" | "activeLayerId" | "width" | "height" | "fps" | "durationSec" | "seed" | "background" | "invert" | "loopMode"
+>;
+
+export const getEditorSnapshot = (state: EditorSnapshot): EditorSnapshot => ({
+  layers: state.layers,
+  activeLayerId: state.activeLayerId,
+  width: state.width,
+  height: state.height,
+  fps: state.fps,
+  durationSec: state.durationSec,
+  seed: state.seed,
+  background: state.background,
+  invert: state.invert,
+  loopMode: state.loopMode,
+});
+
 const initialEffect = effects[0];
 
+/** Playback range clamped to the loop length, with in <= out. */
+export const getLoopRange = (loopIn: number | null, loopOut: number | null, totalFrames: number) => {
+  const last = totalFrames - 1;
+  const start = Math.max(0, Math.min(last, loopIn ?? 0));
+  const end = Math.max(start, Math.min(last, loopOut ?? last));
+  return { start, end };
+};
+
+const randomLayerId = () => `L-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+
+export const createLayer = (effectId: string, params?: ParamValues): EffectLayer => {
+  const effect = getEffect(effectId);
+  return {
+    id: randomLayerId(),
+    effectId: effect.id,
+    opacity: 1,
+    blendMode: "normal",
+    enabled: true,
+    params: { ...effect.defaults, ...params },
+  };
+};
+
+/** Keeps the `effectId`/`params` mirror in sync with the active layer. */
+const withActiveLayer = (layers: EffectLayer[], activeLayerId: string) => {
+  const active = layers.find((layer) => layer.id === activeLayerId) ?? layers[0];
+  return {
+    layers,
+    activeLayerId: active.id,
+    effectId: active.effectId,
+    params: active.params,
+  };
+};
+
+/** Applies `update` to the active layer and refreshes the mirror. */
+const updateActiveLayer = (
+  state: Pick<EditorState, "layers" | "activeLayerId">,
+  update: (layer: EffectLayer) => EffectLayer,
+) =>
+  withActiveLayer(
+    state.layers.map((layer) => (layer.id === state.activeLayerId ? update(layer) : layer)),
+    state.activeLayerId,
+  );
+
+/**
+ * Keys an edited value on a keyframed param. A paused preview keys it at the
+ * playhead; during playback the playhead moves every frame, so the nearest
+ * existing keyframe takes the value rather than keys piling up along the track.
+ */
+const keyEditedValue = (
+  state: Pick<EditorState, "playing" | "currentFrame">,
+  track: Keyframe[],
+  value: ParamValue,
+) =>
+  state.playing
+    ? setNearestKeyframeValue(track, state.currentFrame, value)
+    : upsertKeyframe(track, state.currentFrame, value);
+
+const initialLayer = createLayer(initialEffect.id);
+
+const sanitizeLayers = (raw: unknown): EffectLayer[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  return raw
+    .filter((item): item is Partial<EffectLayer> => Boolean(item) && typeof item === "object")
+    .map((item) => {
+      const layer = createLayer(String(item.effectId ?? ""), (item.params ?? {}) as ParamValues);
+      const id = typeof item.id === "string" && item.id && !seen.has(item.id) ? item.id : layer.id;
+      seen.add(id);
+      return {
+        ...layer,
+        id,
+        opacity: Number.isFinite(item.opacity) ? Math.max(0, Math.min(1, Number(item.opacity))) : 1,
+        blendMode: isBlendMode(item.blendMode) ? item.blendMode : "normal",
+        enabled: item.enabled ?? true,
+        solo: Boolean(item.solo),
+        muted: Boolean(item.muted),
+        keyframes: sanitizeKeyframes(item.keyframes, getEffect(layer.effectId)),
+      };
+    });
+};
+
 const sanitizeDimension = (value: number, fallback: number) => {
   if (!Number.isFinite(value) || value <= 0) return fallback;
   return Math.round(Math.max(32, Math.min(8192, value)));
@@ -54,9 +207,45 @@ const sanitizeDuration = (value: number, fallback: number) => {
   return Math.max(1, Math.min(300, Math.round(value)));
 };
 
+const summarize = (items: string[], limit = 3) =>
+  items.length > limit ? `${items.slice(0, limit).join("; ")} (+${items.length - limit} more)` : items.join("; ");
+
+/**
+ * Migrates, validates and sanitizes a saved or shared state into editor fields
+ * without touching the store. `changes` holds the migration notes and
+ * `corrections` the invalid values that were repaired or dropped.
+ */
+export const resolveStoredState = (
+  stored: StoredState,
+): { snapshot: EditorSnapshot; changes: string[]; corrections: string[] } => {
+  const migrated = migrateStoredState(stored);
+  const { state, corrections } = validateStoredState(migrated.state);
+  const storedLayers = sanitizeLayers(state.layers);
+  const layers = storedLayers.length > 0
+    ? storedLayers
+    : [createLayer(state.effectId, state.params as ParamValues)];
+  const active = layers.find((layer) => layer.id === state.activeLayerId) ?? layers[0];
+
+  return {
+    snapshot: {
+      layers,
+      activeLayerId: active.id,
+      width: sanitizeDimension(state.width, 640),
+      height: sanitizeDimension(state.height, 640),
+      fps: sanitizeFps(state.fps, 12),
+      durationSec: sanitizeDuration(state.durationSec, 6),
+      seed: state.seed?.toUpperCase?.() || generateSeed(),
+      background: state.background === "black" ? "black" : "white",
+      invert: Boolean(state.invert),
+      loopMode: Boolean(state.loopMode),
+    },
+    changes: migrated.changes,
+    corrections,
+  };
+};
+
 export const useEditorStore = create<EditorState>((set, get) => ({
-  effectId: initialEffect.id,
-  params: { ...initialEffect.defaults },
+  ...withActiveLayer([initialLayer], initialLayer.id),
   width: 640,
   height: 640,
   fps: 12,
@@ -64,9 +253,15 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   seed: generateSeed(),
   background: "white",
   invert: false,
+  loopMode: false,
   enableWarnings: true,
   playing: true,
   currentFrame: 0,
+  loopIn: null,
+  loopOut: null,
+  seekRequest: null,
+  lockedParams: {},
+  previewQuality: null,
   setSize: (width, height) => {
     const newWidth = sanitizeDimension(width, get().width);
     const newHeight = sanitizeDimension(height, get().height);
@@ -88,19 +283,151 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   },
   setEffectId: (id) => {
     const effect = getEffect(id);
-    set({
-      effectId: effect.id,
-      params: { ...effect.defaults },
+    set((state) => ({
+      ...withActiveLayer(
+        state.layers.map((layer) =>
+          layer.id === state.activeLayerId
+            ? { ...layer, effectId: effect.id, params: { ...effect.defaults }, keyframes: undefined }
+            : layer,
+        ),
+        state.activeLayerId,
+      ),
       currentFrame: 0,
-    });
+    }));
   },
   setParam: (key, value) => {
-    set((state) => ({
-      params: {
-        ...state.params,
-        [key]: value,
-      },
-    }));
+    set((state) =>
+      updateActiveLayer(state, (layer) => {
+        // Editing a keyframed param keys the value; see `keyEditedValue`.
+        const track = layer.keyframes?.[key];
+        return {
+          ...layer,
+          params: { ...layer.params, [key]: value },
+          keyframes: track ? withTrack(layer.keyframes, key, keyEditedValue(state, track, value)) : layer.keyframes,
+        };
+      }),
+    );
+  },
+  toggleKeyframe: (key, frame) => {
+    set((state) =>
+      updateActiveLayer(state, (layer) => {
+        const track = layer.keyframes?.[key];
+        if (findKeyframe(track, frame)) {
+          return { ...layer, keyframes: withTrack(layer.keyframes, key, removeKeyframe(track, frame)) };
+        }
+        const def = getEffect(layer.effectId).params.find((param) => param.key === key);
+        const value = (def && track && evaluateTrack(def, track, frame)) ?? layer.params[key];
+        if (value === undefined) return layer;
+        return { ...layer, keyframes: withTrack(layer.keyframes, key, upsertKeyframe(track, frame, value)) };
+      }),
+    );
+  },
+  setKeyframeEasing: (key, frame, easing) => {
+    set((state) =>
+      updateActiveLayer(state, (layer) => {
+        const track = layer.keyframes?.[key];
+        if (!findKeyframe(track, frame)) return layer;
+        const next = track!.map((keyframe) => (keyframe.frame === frame ? { ...keyframe, easing } : keyframe));
+        return { ...layer, keyframes: withTrack(layer.keyframes, key, next) };
+      }),
+    );
+  },
+  clearKeyframes: (key) => {
+    set((state) =>
+      updateActiveLayer(state, (layer) => ({ ...layer, keyframes: withTrack(layer.keyframes, key, []) })),
+    );
+  },
+  toggleParamLock: (key) => {
+    set((state) => {
+      const locked = state.lockedParams[state.effectId] ?? [];
+      return {
+        lockedParams: {
+          ...state.lockedParams,
+          [state.effectId]: locked.includes(key) ? locked.filter((item) => item !== key) : [...locked, key],
+        },
+      };
+    });
+  },
+  randomizeParams: (options) => {
+    set((state) =>
+      updateActiveLayer(state, (layer) => {
+        const effect = getEffect(layer.effectId);
+        // Starts from the values shown at the current frame, so mutate nudges what's on screen.
+        const current = evaluateLayerParams(effect, layer, state.currentFrame);
+        const next = randomizeParamValues(effect, current, { ...options, locked: state.lockedParams[effect.id] });
+        let keyframes = layer.keyframes;
+        const params = { ...layer.params };
+        effect.params.forEach(({ key }) => {
+          if (next[key] === current[key]) return;
+          params[key] = next[key];
+          // Like `setParam`, a keyframed param keys the new value.
+          const track = keyframes?.[key];
+          if (track) keyframes = withTrack(keyframes, key, keyEditedValue(state, track, next[key]));
+        });
+        return { ...layer, params, keyframes };
+      }),
+    );
+  },
+  addLayer: (effectId) => {
+    set((state) => {
+      const layer = createLayer(effectId ?? state.effectId);
+      return withActiveLayer([...state.layers, layer], layer.id);
+    });
+  },
+  removeLayer: (id) => {
+    set((state) => {
+      if (state.layers.length <= 1) return {};
+      const layers = state.layers.filter((layer) => layer.id !== id);
+      if (layers.length === state.layers.length) return {};
+      return withActiveLayer(layers, state.activeLayerId);
+    });
+  },
+  selectLayer: (id) => {
+    set((state) => withActiveLayer(state.layers, id));
+  },
+  moveLayer: (id, toIndex) => {
+    set((state) => {
+      const fromIndex = state.layers.findIndex((layer) => layer.id === id);
+      if (fromIndex === -1) return {};
+      const target = Math.max(0, Math.min(state.layers.length - 1, Math.round(toIndex)));
+      if (target === fromIndex) return {};
+      const layers = [...state.layers];
+      const [moved] = layers.splice(fromIndex, 1);
+      layers.splice(target, 0, moved);
+      return withActiveLayer(layers, state.activeLayerId);
+    });
+  },
+  duplicateLayer: (id) => {
+    set((state) => {
+      const index = state.layers.findIndex((layer) => layer.id === id);
+      if (index === -1) return {};
+      const source = state.layers[index];
+      const copy: EffectLayer = { ...source, id: randomLayerId(), params: { ...source.params } };
+      const layers = [...state.layers];
+      layers.splice(index + 1, 0, copy);
+      return withActiveLayer(layers, copy.id);
+    });
+  },
+  updateLayer: (id, patch) => {
+    set((state) =>
+      withActiveLayer(
+        state.layers.map((layer) => {
+          if (layer.id !== id) return layer;
+          const next = { ...layer, ...patch };
+          if (patch.effectId && patch.effectId !== layer.effectId) {
+            const effect = getEffect(patch.effectId);
+            next.effectId = effect.id;
+            next.params = patch.params ?? { ...effect.defaults };
+            next.keyframes = patch.keyframes;
+          }
+          if (typeof patch.opacity === "number") {
+            next.opacity = Math.max(0, Math.min(1, patch.opacity));
+          }
+          return next;
+        }),
+        state.activeLayerId,
+      ),
+    );
   },
   setPlaying: (playing) => set({ playing }),
   togglePlaying: () => set((state) => ({ playing: !state.playing })),
@@ -112,32 +439,60 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   },
   setBackground: (value) => set({ background: value }),
   toggleInvert: () => set((state) => ({ invert: !state.invert })),
+  toggleLoopMode: () => set((state) => ({ loopMode: !state.loopMode })),
   toggleWarnings: () => set((state) => ({ enableWarnings: !state.enableWarnings })),
   setCurrentFrame: (frame) => set({ currentFrame: frame }),
-  loadFromStoredState: (snapshot) => {
-    const effect = getEffect(snapshot.effectId);
-    const mergedParams: ParamValues = {
-      ...effect.defaults,
-      ...(snapshot.params as ParamValues),
-    };
-    const width = sanitizeDimension(snapshot.width, 640);
-    const height = sanitizeDimension(snapshot.height, 640);
-    const fps = sanitizeFps(snapshot.fps, 12);
+  setPreviewQuality: (settings) => set({ previewQuality: settings }),
+  seekTo: (frame) => {
+    const { fps, durationSec } = get();
+    const last = getFrameCount(fps, durationSec) - 1;
+    const target = Math.max(0, Math.min(last, Math.round(frame)));
+    set({ currentFrame: target, seekRequest: { frame: target } });
+  },
+  stepFrame: (delta) => {
+    const { fps, durationSec, currentFrame } = get();
+    const totalFrames = getFrameCount(fps, durationSec);
+    set({ playing: false });
+    get().seekTo((currentFrame + Math.round(delta) + totalFrames) % totalFrames);
+  },
+  setLoopIn: (frame) => {
+    set((state) => ({
+      loopIn: frame,
+      loopOut: frame !== null && state.loopOut !== null && state.loopOut < frame ? null : state.loopOut,
+    }));
+  },
+  setLoopOut: (frame) => {
+    set((state) => ({
+      loopOut: frame,
+      loopIn: frame !== null && state.loopIn !== null && state.loopIn > frame ? null : state.loopIn,
+    }));
+  },
+  loadFromStoredState: (stored) => {
+    const { snapshot, changes, corrections } = resolveStoredState(stored);
+    const { addNotification } = useNotificationStore.getState();
+    if (changes.length > 0) {
+      addNotification(`Updated saved settings: ${summarize(changes)}`, "info");
+    }
+    if (corrections.length > 0) {
+      addNotification(`Corrected ${corrections.length} invalid setting${corrections.length === 1 ? "" : "s"}: ${summarize(corrections)}`, "error");
+    }
 
     set({
-      effectId: effect.id,
-      params: mergedParams,
-      width,
-      height,
-      fps,
-      durationSec: sanitizeDuration(snapshot.durationSec, 6),
-      seed: snapshot.seed?.toUpperCase?.() ?? generateSeed(),
-      background: snapshot.background,
-      invert: snapshot.invert,
+      ...snapshot,
+      ...withActiveLayer(snapshot.layers, snapshot.activeLayerId),
       currentFrame: 0,
+      seekRequest: { frame: 0 },
+      loopIn: null,
+      loopOut: null,
       playing: false,
     });
   },
+  restoreSnapshot: (snapshot) => {
+    set({
+      ...snapshot,
+      ...withActiveLayer(snapshot.layers, snapshot.activeLayerId),
+    });
+  },
 }));
 
 export const getStoredStateSnapshot = (): StoredState => {
@@ -145,6 +500,8 @@ export const getStoredStateSnapshot = (): StoredState => {
   return {
     effectId: state.effectId,
     params: { ...state.params },
+    layers: state.layers.map((layer) => ({ ...layer, params: { ...layer.params } })),
+    activeLayerId: state.activeLayerId,
     width: state.width,
     height: state.height,
     fps: state.fps,
@@ -152,5 +509,7 @@ export const getStoredStateSnapshot = (): StoredState => {
     seed: state.seed,
     background: state.background,
     invert: state.invert,
+    loopMode: state.loopMode,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
   };
 };
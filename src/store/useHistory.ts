@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect } from "react";
+import { create } from "zustand";
+
+import { getEffect } from "@/effects";
+import type { EffectLayer, ParamValue } from "@/effects/types";
+import { getEditorSnapshot, useEditorStore, type EditorSnapshot } from "@/store/useEditor";
+
+export type HistoryEntry = {
+  id: number;
+  label: string;
+  /** What changed; consecutive edits with the same key merge into one entry. */
+  key: string;
+  before: EditorSnapshot;
+  after: EditorSnapshot;
+  updatedAt: number;
+};
+
+type HistoryState = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  undo: () => void;
+  redo: () => void;
+  /** Moves to the state right after `entryId`, or to the initial state when null. */
+  jumpTo: (entryId: number | null) => void;
+  /** Groups every change until the matching `endTransaction` into one entry. */
+  beginTransaction: () => void;
+  endTransaction: () => void;
+  clear: () => void;
+};
+
+type Change = { label: string; key: string };
+
+const MAX_ENTRIES = 100;
+const COALESCE_MS = 800;
+
+let nextEntryId = 1;
+let applying = false;
+let transactionDepth = 0;
+let transactionBefore: EditorSnapshot | null = null;
+
+const formatNumber = (value: number) => String(Number(value.toFixed(3)));
+
+const formatValue = (value: ParamValue | undefined): string => {
+  if (value === undefined) return "–";
+  if (typeof value === "number") return formatNumber(value);
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  if (typeof value === "string") return value || "\"\"";
+  if (Array.isArray(value)) return "curve";
+  if ("x" in value) return `(${formatNumber(value.x)}, ${formatNumber(value.y)})`;
+  return `${formatNumber(value.min)}–${formatNumber(value.max)}`;
+};
+
+const sameValue = (a: ParamValue | undefined, b: ParamValue | undefined) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const describeLayerChanges = (before: EffectLayer, after: EffectLayer): Change[] => {
+  const changes: Change[] = [];
+  const id = after.id;
+  if (before.effectId !== after.effectId) {
+    changes.push({
+      label: `Effect ${getEffect(before.effectId).name} → ${getEffect(after.effectId).name}`,
+      key: `effect:${id}`,
+    });
+    return changes;
+  }
+
+  if (before.params !== after.params) {
+    const effect = getEffect(after.effectId);
+    const keys = new Set([...Object.keys(before.params), ...Object.keys(after.params)]);
+    keys.forEach((key) => {
+      if (sameValue(before.params[key], after.params[key])) return;
+      const label = effect.params.find((param) => param.key === key)?.label ?? key;
+      changes.push({
+        label: `${label} ${formatValue(before.params[key])} → ${formatValue(after.params[key])}`,
+        key: `param:${id}:${key}`,
+      });
+    });
+  }
+  if (before.keyframes !== after.keyframes && changes.length === 0) {
+    changes.push({ label: "Edit keyframes", key: `keyframes:${id}:${Date.now()}` });
+  }
+  if (before.opacity !== after.opacity) {
+    changes.push({
+      label: `Opacity ${Math.round(before.opacity * 100)}% → ${Math.round(after.opacity * 100)}%`,
+      key: `opacity:${id}`,
+    });
+  }
+  if (before.blendMode !== after.blendMode) {
+    changes.push({ label: `Blend ${before.blendMode} → ${after.blendMode}`, key: `blend:${id}` });
+  }
+  if (before.enabled !== after.enabled) {
+    changes.push({ label: after.enabled ? "Enable layer" : "Disable layer", key: `enabled:${id}` });
+  }
+  if (Boolean(before.solo) !== Boolean(after.solo)) {
+    changes.push({ label: after.solo ? "Solo layer" : "Unsolo layer", key: `solo:${id}` });
+  }
+  if (Boolean(before.muted) !== Boolean(after.muted)) {
+    changes.push({ label: after.muted ? "Mute layer" : "Unmute layer", key: `muted:${id}` });
+  }
+  return changes;
+};
+
+const describeLayersChange = (before: EffectLayer[], after: EffectLayer[]): Change[] => {
+  if (after.length > before.length) return [{ label: "Add layer", key: `layers:${Date.now()}` }];
+  if (after.length < before.length) return [{ label: "Remove layer", key: `layers:${Date.now()}` }];
+  if (after.some((layer, index) => layer.id !== before[index].id)) {
+    return [{ label: "Reorder layers", key: `layers:${Date.now()}` }];
+  }
+  return after.flatMap((layer, index) => (layer === before[index] ? [] : describeLayerChanges(before[index], layer)));
+};
+
+/** Summarizes what changed between two snapshots, or null when nothing undoable did. */
+export function describeChange(before: EditorSnapshot, after: EditorSnapshot): Change | null {
+  const changes: Change[] = [];
+  if (before.layers !== after.layers) {
+    changes.push(...describeLayersChange(before.layers, after.layers));
+  }
+  if (before.seed !== after.seed) {
+    changes.push({ label: `Seed ${before.seed} → ${after.seed}`, key: "seed" });
+  }
+  if (before.width !== after.width || before.height !== after.height) {
+    changes.push({
+      label: `Size ${before.width}×${before.height} → ${after.width}×${after.height}`,
+      key: "size",
+    });
+  }
+  if (before.fps !== after.fps) {
+    changes.push({ label: `FPS ${before.fps} → ${after.fps}`, key: "fps" });
+  }
+  if (before.durationSec !== after.durationSec) {
+    changes.push({ label: `Duration ${before.durationSec}s → ${after.durationSec}s`, key: "duration" });
+  }
+  if (before.background !== after.background) {
+    changes.push({ label: `Background ${before.background} → ${after.background}`, key: "background" });
+  }
+  if (before.invert !== after.invert) {
+    changes.push({ label: after.invert ? "Invert on" : "Invert off", key: "invert" });
+  }
+  if (before.loopMode !== after.loopMode) {
+    changes.push({ label: after.loopMode ? "Seamless loop on" : "Seamless loop off", key: "loopMode" });
+  }
+
+  if (changes.length === 0) return null;
+  if (changes.length === 1) return changes[0];
+  return { label: `${changes[0].label} +${changes.length - 1} more`, key: `multi:${Date.now()}` };
+}
+
+const applySnapshot = (snapshot: EditorSnapshot) => {
+  applying = true;
+  try {
+    useEditorStore.getState().restoreSnapshot(snapshot);
+  } finally {
+    applying = false;
+  }
+};
+
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+  past: [],
+  future: [],
+  undo: () => {
+    const { past, future } = get();
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    applySnapshot(entry.before);
+    set({ past: past.slice(0, -1), future: [entry, ...future] });
+  },
+  redo: () => {
+    const { past, future } = get();
+    const [entry, ...rest] = future;
+    if (!entry) return;
+    applySnapshot(entry.after);
+    set({ past: [...past, entry], future: rest });
+  },
+  jumpTo: (entryId) => {
+    const { past, future } = get();
+    const entries = [...past, ...future];
+    if (entries.length === 0) return;
+    const index = entryId === null ? -1 : entries.findIndex((entry) => entry.id === entryId);
+    if (entryId !== null && index === -1) return;
+    applySnapshot(index === -1 ? entries[0].before : entries[index].after);
+    set({ past: entries.slice(0, index + 1), future: entries.slice(index + 1) });
+  },
+  beginTransaction: () => {
+    transactionDepth += 1;
+  },
+  endTransaction: () => {
+    if (transactionDepth === 0) return;
+    transactionDepth -= 1;
+    if (transactionDepth > 0 || !transactionBefore) return;
+    const before = transactionBefore;
+    transactionBefore = null;
+    const after = getEditorSnapshot(useEditorStore.getState());
+    const change = describeChange(before, after);
+    if (!change) return;
+    set((state) => ({
+      past: [
+        ...state.past,
+        { id: nextEntryId++, label: change.label, key: change.key, before, after, updatedAt: Date.now() },
+      ].slice(-MAX_ENTRIES),
+      future: [],
+    }));
+  },
+  clear: () => set({ past: [], future: [] }),
+}));
+
+useEditorStore.subscribe((state, previous) => {
+  if (applying) return;
+  const before = getEditorSnapshot(previous);
+  const after = getEditorSnapshot(state);
+  const change = describeChange(before, after);
+  if (!change) return;
+
+  if (transactionDepth > 0) {
+    transactionBefore ??= before;
+    return;
+  }
+
+  const now = Date.now();
+  useHistoryStore.setState((history) => {
+    const last = history.past[history.past.length - 1];
+    if (last && last.key === change.key && history.future.length === 0 && now - last.updatedAt < COALESCE_MS) {
+      // Rapid tweaks of the same control (typing, range inputs) collapse into one step.
+      const merged = describeChange(last.before, after);
+      const past = history.past.slice(0, -1);
+      return {
+        past: merged ? [...past, { ...last, label: merged.label, after, updatedAt: now }] : past,
+      };
+    }
+    return {
+      past: [
+        ...history.past,
+        { id: nextEntryId++, label: change.label, key: change.key, before, after, updatedAt: now },
+      ].slice(-MAX_ENTRIES),
+      future: [],
+    };
+  });
+});
+
+const isTextEntry = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+  return target instanceof HTMLInputElement && !["range", "checkbox", "radio", "color", "button"].includes(target.type);
+};
+
+/** Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes; text fields keep their own undo. */
+export function useHistoryShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey || isTextEntry(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          useHistoryStore.getState().redo();
+        } else {
+          useHistoryStore.getState().undo();
+        }
+      } else if (key === "y" && !event.shiftKey) {
+        event.preventDefault();
+        useHistoryStore.getState().redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+export type PinnedSeed = {
+  seed: string;
+  /** Effect the seed was pinned from; a seed reads differently under another effect. */
+  effectId: string;
+  pinnedAt: number;
+};
+
+type SeedFavoritesState = {
+  pinned: PinnedSeed[];
+  pin: (seed: string, effectId: string) => void;
+  unpin: (seed: string) => void;
+};
+
+export const useSeedFavorites = create<SeedFavoritesState>()(
+  persist(
+    (set) => ({
+      pinned: [],
+      pin: (seed, effectId) =>
+        set((state) =>
+          state.pinned.some((entry) => entry.seed === seed)
+            ? state
+            : { pinned: [{ seed, effectId, pinnedAt: Date.now() }, ...state.pinned] },
+        ),
+      unpin: (seed) => set((state) => ({ pinned: state.pinned.filter((entry) => entry.seed !== seed) })),
+    }),
+    {
+      name: "bw-animator-pinned-seeds",
+      // Rehydrated after mount so the server render and first client render agree.
+      skipHydration: true,
+    },
+  ),
+);
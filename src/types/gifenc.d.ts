@@ -1,11 +1,14 @@
 declare module "gifenc" {
   type Palette = number[][];
+  type PaletteFormat = "rgb565" | "rgb444" | "rgba4444";
 
   interface WriteFrameOptions {
     palette: Palette;
     delay?: number;
+    repeat?: number;
     transparent?: boolean;
     transparentIndex?: number;
+    dispose?: number;
   }
 
   interface GIFEncoderInstance {
@@ -17,5 +20,15 @@ declare module "gifenc" {
   }
 
   export function GIFEncoder(options?: { auto?: boolean }): GIFEncoderInstance;
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: PaletteFormat; oneBitAlpha?: boolean | number },
+  ): Palette;
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: Palette,
+    format?: PaletteFormat,
+  ): Uint8Array;
   export { GIFEncoder as default };
 }